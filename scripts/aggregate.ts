@@ -0,0 +1,277 @@
+/**
+ * Aggregation
+ *
+ * Pages through a table and computes grouped counts, sums, averages,
+ * min/max and distinct counts, so questions like "products per Status" or
+ * "order value by month" need no export. Dates can be bucketed by day, week
+ * or month, and multi-value fields (multi-selects, links, lookups) can be
+ * exploded so each item forms its own group.
+ */
+
+import type { AirtableMCPClient, AirtableRecord, SortSpec } from "./mcp-client.js";
+import type { FilterInput } from "./formula.js";
+import { flattenValue } from "./export.js";
+
+export type AggregateOp = "count" | "sum" | "avg" | "min" | "max" | "distinct";
+
+export type DateBucket = "day" | "week" | "month";
+
+export interface Metric {
+  op: AggregateOp;
+  /** Field to aggregate (omit for a record count) */
+  field?: string;
+  /** Output column name (default: "count" or "op(field)") */
+  as?: string;
+}
+
+export interface GroupBy {
+  field: string;
+  /** Group dates by day (YYYY-MM-DD), ISO week (YYYY-Www) or month (YYYY-MM) */
+  bucket?: DateBucket;
+  /** One group per item of a multi-value field instead of per combination */
+  explode?: boolean;
+}
+
+export interface AggregateOptions {
+  baseId?: string;
+  filterFormula?: FilterInput;
+  view?: string;
+  groupBy?: GroupBy[];
+  /** Default: a single record count */
+  metrics?: Metric[];
+  /** Row order by output column (default: group columns ascending) */
+  sort?: SortSpec[];
+}
+
+/** One output row: group column values followed by metric values. */
+export type AggregateRow = Record<string, string | number | null>;
+
+export interface AggregateResult {
+  groupBy: string[];
+  metrics: string[];
+  /** Records read */
+  records: number;
+  rows: AggregateRow[];
+}
+
+const AGGREGATE_OPS = new Set<AggregateOp>(["count", "sum", "avg", "min", "max", "distinct"]);
+
+/**
+ * Parses "count,sum:Qty,avg:Price" into metrics.
+ */
+export function parseMetrics(spec: string): Metric[] {
+  return spec.split(",").map((part) => part.trim()).filter(Boolean).map((part) => {
+    const [op, ...rest] = part.split(":");
+    const field = rest.join(":").trim() || undefined;
+    if (!AGGREGATE_OPS.has(op.trim() as AggregateOp)) {
+      throw new Error(`Unknown aggregate "${op}" (use ${[...AGGREGATE_OPS].join(", ")})`);
+    }
+    if (op.trim() !== "count" && !field) {
+      throw new Error(`"${op}" needs a field, e.g. ${op}:Qty`);
+    }
+    return { op: op.trim() as AggregateOp, field };
+  });
+}
+
+/**
+ * Parses "Status,Created:month,Tags:explode" into group-by specs.
+ */
+export function parseGroupBy(spec: string): GroupBy[] {
+  return spec.split(",").map((part) => part.trim()).filter(Boolean).map((part) => {
+    const index = part.lastIndexOf(":");
+    const modifier = index === -1 ? "" : part.slice(index + 1).trim();
+    if (modifier === "day" || modifier === "week" || modifier === "month") {
+      return { field: part.slice(0, index).trim(), bucket: modifier };
+    }
+    if (modifier === "explode") {
+      return { field: part.slice(0, index).trim(), explode: true };
+    }
+    return { field: part };
+  });
+}
+
+function metricName(metric: Metric): string {
+  return metric.as || (metric.op === "count" && !metric.field ? "count" : `${metric.op}(${metric.field})`);
+}
+
+/**
+ * Formats a date into its bucket label (UTC).
+ */
+function bucketDate(value: any, bucket: DateBucket): string | null {
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) return null;
+  const iso = date.toISOString();
+  if (bucket === "day") return iso.slice(0, 10);
+  if (bucket === "month") return iso.slice(0, 7);
+
+  // ISO week: the week belongs to the year of its Thursday
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((thursday.getTime() - yearStart) / 86_400_000 + 1) / 7);
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * Group values a record contributes for one group-by column.
+ */
+function groupValues(record: AirtableRecord, spec: GroupBy): Array<string | null> {
+  const value = record.fields?.[spec.field];
+  if (value === undefined || value === null || (Array.isArray(value) && !value.length)) return [null];
+  if (spec.explode && Array.isArray(value)) {
+    return [...new Set(value.map((v) => (spec.bucket ? bucketDate(v, spec.bucket) : flattenValue(v))))];
+  }
+  if (spec.bucket) return [bucketDate(Array.isArray(value) ? value[0] : value, spec.bucket)];
+  const text = flattenValue(value);
+  return [text === "" ? null : text];
+}
+
+/**
+ * Every combination of group values (more than one when exploding).
+ */
+function groupKeys(record: AirtableRecord, groupBy: GroupBy[]): Array<Array<string | null>> {
+  let keys: Array<Array<string | null>> = [[]];
+  for (const spec of groupBy) {
+    const values = groupValues(record, spec);
+    keys = keys.flatMap((prefix) => values.map((v) => [...prefix, v]));
+  }
+  return keys;
+}
+
+/**
+ * Numeric or comparable scalar values of a field (arrays contribute items).
+ */
+function metricValues(record: AirtableRecord, field: string): any[] {
+  const value = record.fields?.[field];
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value.filter((v) => v !== null && v !== undefined) : [value];
+}
+
+interface Accumulator {
+  count: number;
+  sum: number;
+  numeric: number;
+  min?: any;
+  max?: any;
+  distinct: Set<string>;
+}
+
+function compare(a: any, b: any): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+function accumulate(acc: Accumulator, values: any[]): void {
+  for (const value of values) {
+    if (typeof value === "number") {
+      acc.sum += value;
+      acc.numeric++;
+    }
+    const scalar = typeof value === "object" ? flattenValue(value) : value;
+    if (acc.min === undefined || compare(scalar, acc.min) < 0) acc.min = scalar;
+    if (acc.max === undefined || compare(scalar, acc.max) > 0) acc.max = scalar;
+    acc.distinct.add(String(scalar));
+  }
+}
+
+function result(metric: Metric, group: { count: number; fields: Map<string, Accumulator> }): number | string | null {
+  if (metric.op === "count" && !metric.field) return group.count;
+  const acc = group.fields.get(metric.field!);
+  if (!acc) return metric.op === "sum" || metric.op === "count" || metric.op === "distinct" ? 0 : null;
+  switch (metric.op) {
+    case "count": return acc.count;
+    case "sum": return acc.sum;
+    case "avg": return acc.numeric ? acc.sum / acc.numeric : null;
+    case "min": return acc.min ?? null;
+    case "max": return acc.max ?? null;
+    case "distinct": return acc.distinct.size;
+  }
+}
+
+/**
+ * Aggregates every matching record of a table.
+ *
+ * Only the fields needed for grouping and metrics are requested. Records with
+ * an empty group field form a group with a null value. `count:Field` counts
+ * records where the field is non-empty; `sum`/`avg` ignore non-numeric values;
+ * `min`/`max` also work on dates and text.
+ *
+ * @param client - Connected Airtable client
+ * @param tableName - Table name or table ID
+ * @param options - Filter/view, grouping and metrics
+ * @returns Rows with one column per group-by field and per metric
+ *
+ * @example
+ * await aggregateRecords(client, "Orders", {
+ *   groupBy: [{ field: "Date", bucket: "month" }],
+ *   metrics: [{ op: "count" }, { op: "sum", field: "Total" }],
+ * });
+ */
+export async function aggregateRecords(
+  client: AirtableMCPClient,
+  tableName: string,
+  options: AggregateOptions
+): Promise<AggregateResult> {
+  const groupBy = options.groupBy || [];
+  const metrics = options.metrics?.length ? options.metrics : [{ op: "count" as const }];
+  const metricFields = [...new Set(metrics.map((m) => m.field).filter((f): f is string => !!f))];
+  const fields = [...new Set([...groupBy.map((g) => g.field), ...metricFields])];
+
+  const groups = new Map<string, { key: Array<string | null>; count: number; fields: Map<string, Accumulator> }>();
+  let records = 0;
+
+  for await (const page of client.iterateRecords(tableName, {
+    baseId: options.baseId,
+    filterFormula: options.filterFormula,
+    view: options.view,
+    // Requesting no fields returns all of them, so only narrow when we can
+    fields: fields.length ? fields : undefined,
+    pageSize: 100,
+  })) {
+    for (const record of page.records) {
+      records++;
+      for (const key of groupKeys(record, groupBy)) {
+        const id = JSON.stringify(key);
+        let group = groups.get(id);
+        if (!group) {
+          group = { key, count: 0, fields: new Map() };
+          groups.set(id, group);
+        }
+        group.count++;
+        for (const field of metricFields) {
+          const values = metricValues(record, field);
+          let acc = group.fields.get(field);
+          if (!acc) {
+            acc = { count: 0, sum: 0, numeric: 0, distinct: new Set() };
+            group.fields.set(field, acc);
+          }
+          if (values.length) acc.count++;
+          accumulate(acc, values);
+        }
+      }
+    }
+  }
+
+  const groupColumns = groupBy.map((g) => (g.bucket ? `${g.field}:${g.bucket}` : g.field));
+  const metricColumns = metrics.map(metricName);
+  const rows: AggregateRow[] = [...groups.values()].map((group) => {
+    const row: AggregateRow = {};
+    groupColumns.forEach((column, i) => { row[column] = group.key[i]; });
+    metrics.forEach((metric, i) => { row[metricColumns[i]] = result(metric, group); });
+    return row;
+  });
+
+  const sort: SortSpec[] = options.sort?.length ? options.sort : groupColumns.map((field) => ({ field }));
+  rows.sort((a, b) => {
+    for (const { field, direction } of sort) {
+      const x = a[field];
+      const y = b[field];
+      // Empty groups sort last
+      const order = x === null ? (y === null ? 0 : 1) : y === null ? -1 : compare(x, y);
+      if (order !== 0) return direction === "desc" ? -order : order;
+    }
+    return 0;
+  });
+
+  return { groupBy: groupColumns, metrics: metricColumns, records, rows };
+}
@@ -0,0 +1,321 @@
+/**
+ * Attachments
+ *
+ * Downloads attachment files from records into a local directory (with a
+ * manifest), and adds files or URLs to attachment fields without replacing
+ * what is already there.
+ */
+
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from "fs";
+import { basename, extname, join } from "path";
+import type { AirtableMCPClient, AirtableRecord } from "./mcp-client.js";
+import { mapWithConcurrency } from "./batch.js";
+import { InvalidFieldError, NotFoundError } from "./errors.js";
+import { findField, type FieldSchema, type TableSchema } from "./schema.js";
+import type { FilterInput } from "./formula.js";
+
+export interface Attachment {
+  id: string;
+  url: string;
+  filename: string;
+  size?: number;
+  type?: string;
+}
+
+export interface DownloadOptions {
+  /** Directory to write into (created if missing) */
+  dir: string;
+  baseId?: string;
+  /** Single record to download from; otherwise the filter/view selects records */
+  recordId?: string;
+  filterFormula?: FilterInput;
+  view?: string;
+  maxRecords?: number;
+  /** Attachment fields to include (default: every attachment field) */
+  fields?: string[];
+  /** Re-download files that already exist with the expected size */
+  force?: boolean;
+  /** Downloads in flight at once (default: 3) */
+  concurrency?: number;
+}
+
+export interface ManifestEntry {
+  recordId: string;
+  field: string;
+  attachmentId: string;
+  filename: string;
+  /** Path relative to the download directory */
+  path: string;
+  size?: number;
+  type?: string;
+  status: "downloaded" | "skipped" | "failed";
+  error?: string;
+}
+
+export interface DownloadSummary {
+  dir: string;
+  manifest: string;
+  records: number;
+  downloaded: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface AttachResult {
+  recordId: string;
+  field: string;
+  /** The field's attachments after the change */
+  attachments: Attachment[];
+}
+
+const MANIFEST_FILE = "manifest.json";
+const DEFAULT_DOWNLOAD_CONCURRENCY = 3;
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".json": "application/json",
+  ".zip": "application/zip",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * Makes a filename safe for any filesystem, keeping the extension.
+ */
+function safeFilename(name: string): string {
+  const cleaned = name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, "_").replace(/^\.+/, "").trim();
+  return cleaned.slice(-150) || "file";
+}
+
+/**
+ * Stable path for an attachment: <recordId>/<attachmentId>-<filename>.
+ * Attachment IDs do not change, so re-runs write to the same place.
+ */
+function attachmentPath(recordId: string, attachment: Attachment): string {
+  return join(recordId, `${attachment.id}-${safeFilename(attachment.filename || "file")}`);
+}
+
+/**
+ * Filename from the last segment of a URL path, percent-decoded when it is
+ * valid encoding (a literal "%" as in `100%.pdf` is kept as is).
+ */
+function urlFilename(url: string): string {
+  const name = basename(new URL(url).pathname);
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+function attachmentFields(schema: TableSchema, only?: string[]): FieldSchema[] {
+  if (!only?.length) return schema.fields.filter((f) => f.type === "multipleAttachments");
+  return only.map((name) => {
+    const field = findField(schema, name);
+    if (!field || field.type !== "multipleAttachments") {
+      throw new InvalidFieldError(`"${name}" is not an attachment field in table "${schema.name}"`, {
+        context: { tableId: schema.id },
+      });
+    }
+    return field;
+  });
+}
+
+async function fetchToFile(url: string, path: string): Promise<number> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} downloading ${basename(path)}`);
+  }
+  const data = Buffer.from(await response.arrayBuffer());
+  writeFileSync(path, data);
+  return data.length;
+}
+
+/**
+ * Downloads every attachment of one record or a filtered set of records.
+ *
+ * Files land at `<dir>/<recordId>/<attachmentId>-<filename>`; existing files
+ * of the expected size are skipped unless `force` is set. A manifest listing
+ * every attachment and its outcome is written to `<dir>/manifest.json`.
+ * Records are fetched fresh because attachment URLs expire.
+ *
+ * @param client - Connected Airtable client
+ * @param tableName - Table name or table ID
+ * @param options - Target directory, record selection and fields
+ * @returns Counts plus the manifest path
+ *
+ * @example
+ * await downloadAttachments(client, "Products", {
+ *   dir: "./certs",
+ *   filterFormula: "{Status}='Sold'",
+ *   fields: ["Compliance Cert"],
+ * });
+ */
+export async function downloadAttachments(
+  client: AirtableMCPClient,
+  tableName: string,
+  options: DownloadOptions
+): Promise<DownloadSummary> {
+  const schema: TableSchema = await client.describeTable(tableName, options.baseId);
+  const fields = attachmentFields(schema, options.fields);
+
+  let records: AirtableRecord[];
+  if (options.recordId) {
+    records = await client.fetchRecordsById(tableName, [options.recordId], options.baseId);
+    if (!records.length) {
+      throw new NotFoundError(`Record ${options.recordId} not found in table "${tableName}"`, {
+        context: { baseId: options.baseId, tableId: tableName },
+      });
+    }
+  } else {
+    ({ records } = await client.listAllRecords(tableName, {
+      baseId: options.baseId,
+      filterFormula: options.filterFormula,
+      view: options.view,
+      maxRecords: options.maxRecords,
+      fields: fields.map((f) => f.name),
+      bypassCache: true,
+    }));
+  }
+
+  const jobs: Array<{ recordId: string; field: string; attachment: Attachment }> = [];
+  for (const record of records) {
+    for (const field of fields) {
+      const value = record.fields?.[field.name];
+      if (!Array.isArray(value)) continue;
+      for (const attachment of value as Attachment[]) {
+        jobs.push({ recordId: record.id, field: field.name, attachment });
+      }
+    }
+  }
+
+  mkdirSync(options.dir, { recursive: true });
+  const entries = await mapWithConcurrency(
+    jobs,
+    options.concurrency || DEFAULT_DOWNLOAD_CONCURRENCY,
+    async ({ recordId, field, attachment }): Promise<ManifestEntry> => {
+      const path = attachmentPath(recordId, attachment);
+      const fullPath = join(options.dir, path);
+      const entry: ManifestEntry = {
+        recordId,
+        field,
+        attachmentId: attachment.id,
+        filename: attachment.filename,
+        path,
+        size: attachment.size,
+        type: attachment.type,
+        status: "downloaded",
+      };
+
+      if (!options.force && existsSync(fullPath) &&
+          (attachment.size === undefined || statSync(fullPath).size === attachment.size)) {
+        return { ...entry, status: "skipped" };
+      }
+      try {
+        mkdirSync(join(options.dir, recordId), { recursive: true });
+        const size = await fetchToFile(attachment.url, fullPath);
+        return { ...entry, size };
+      } catch (error) {
+        return { ...entry, status: "failed", error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  );
+
+  const manifest = join(options.dir, MANIFEST_FILE);
+  writeFileSync(manifest, JSON.stringify({
+    table: schema.name,
+    tableId: schema.id,
+    downloadedAt: new Date().toISOString(),
+    attachments: entries,
+  }, null, 2) + "\n");
+
+  return {
+    dir: options.dir,
+    manifest,
+    records: records.length,
+    downloaded: entries.filter((e) => e.status === "downloaded").length,
+    skipped: entries.filter((e) => e.status === "skipped").length,
+    failed: entries.filter((e) => e.status === "failed").length,
+  };
+}
+
+/**
+ * Adds a local file or a URL to a record's attachment field, keeping the
+ * attachments already there.
+ *
+ * URLs go through updateRecords with the existing attachments passed back by
+ * ID (Airtable replaces the whole field on update). Local files are sent to
+ * Airtable's upload endpoint, which appends.
+ *
+ * @param client - Connected Airtable client
+ * @param tableName - Table name or table ID
+ * @param recordId - Record to attach to
+ * @param fieldName - Attachment field name
+ * @param source - Local file path or http(s) URL
+ * @param options - Filename override and base
+ * @returns The field's attachments afterwards
+ * @throws {InvalidFieldError} If the field is not an attachment field
+ *
+ * @example
+ * await attachFile(client, "Products", "recABC123", "Compliance Cert", "./cert.pdf");
+ */
+export async function attachFile(
+  client: AirtableMCPClient,
+  tableName: string,
+  recordId: string,
+  fieldName: string,
+  source: string,
+  options?: { filename?: string; baseId?: string }
+): Promise<AttachResult> {
+  const schema: TableSchema = await client.describeTable(tableName, options?.baseId);
+  const [field] = attachmentFields(schema, [fieldName]);
+
+  if (/^https?:\/\//i.test(source)) {
+    const [record] = await client.fetchRecordsById(tableName, [recordId], options?.baseId);
+    if (!record) {
+      throw new NotFoundError(`Record ${recordId} not found in table "${tableName}"`, {
+        context: { baseId: options?.baseId, tableId: tableName },
+      });
+    }
+    const existing = (record.fields?.[field.name] || []) as Attachment[];
+    const filename = options?.filename || urlFilename(source) || undefined;
+    const attachments = [
+      ...existing.map((a) => ({ id: a.id })),
+      { url: source, ...(filename ? { filename } : {}) },
+    ];
+    const report = await client.updateRecords(
+      tableName,
+      [{ id: recordId, fields: { [field.name]: attachments } }],
+      options?.baseId
+    );
+    const result = report.results[0];
+    if (!result?.ok) {
+      throw new Error(result?.error || "Attachment update failed");
+    }
+    return { recordId, field: field.name, attachments: result.record?.fields?.[field.name] || attachments };
+  }
+
+  const filename = options?.filename || basename(source);
+  const attachments = await client.uploadAttachment(
+    tableName,
+    recordId,
+    field.id,
+    {
+      filename,
+      contentType: CONTENT_TYPES[extname(filename).toLowerCase()] || "application/octet-stream",
+      data: readFileSync(source),
+    },
+    options?.baseId
+  );
+  return { recordId, field: field.name, attachments };
+}
@@ -0,0 +1,195 @@
+/**
+ * Batch helpers
+ *
+ * Airtable accepts at most 10 records per write request. These helpers split
+ * work into request-sized chunks and run them with bounded concurrency so a
+ * large job neither floods the API nor runs strictly one request at a time.
+ */
+
+/** Maximum records Airtable accepts in a single create/update/delete request. */
+export const MAX_RECORDS_PER_REQUEST = 10;
+
+/** Default number of chunks in flight at once. */
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+export interface BatchItemResult {
+  /** Position of the item in the caller's input array */
+  index: number;
+  ok: boolean;
+  /** Record ID (created, updated or deleted), when known */
+  id?: string;
+  record?: any;
+  error?: string;
+}
+
+export interface BatchReport {
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BatchItemResult[];
+}
+
+export interface BatchOptions {
+  /** Chunks processed in parallel (default: 3) */
+  concurrency?: number;
+}
+
+/**
+ * Splits an array into consecutive chunks of at most `size` items.
+ *
+ * @example
+ * chunk([1, 2, 3, 4, 5], 2); // [[1, 2], [3, 4], [5]]
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Maps over items with at most `limit` promises pending at a time.
+ * Results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Runs `fn` over request-sized chunks and collects a per-item report.
+ *
+ * `fn` receives one chunk and returns one result per item in that chunk.
+ * If `fn` throws, every item in the chunk is reported as failed with the
+ * error message; other chunks carry on.
+ *
+ * @param items - Items to process
+ * @param fn - Processes one chunk; returns results in chunk order
+ * @param options - Concurrency settings
+ * @returns Report with counts and per-item results in input order
+ */
+export async function runBatches<T>(
+  items: T[],
+  fn: (chunk: T[]) => Promise<Array<Omit<BatchItemResult, "index">>>,
+  options?: BatchOptions
+): Promise<BatchReport> {
+  const chunks = chunk(items, MAX_RECORDS_PER_REQUEST);
+  const concurrency = options?.concurrency || DEFAULT_BATCH_CONCURRENCY;
+
+  const chunkResults = await mapWithConcurrency(chunks, concurrency, async (part, chunkIndex) => {
+    const base = chunkIndex * MAX_RECORDS_PER_REQUEST;
+    try {
+      const results = await fn(part);
+      return part.map((_, i) => ({ ...(results[i] || { ok: false, error: "No result returned" }), index: base + i }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return part.map((_, i) => ({ index: base + i, ok: false, error: message }));
+    }
+  });
+
+  const results = chunkResults.flat();
+  const succeeded = results.filter((r) => r.ok).length;
+  return {
+    total: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  };
+}
+
+/**
+ * Like runBatches, but items already rejected (e.g. by validation) are not
+ * sent; they appear in the report as failures with the given message.
+ *
+ * @param items - Items to process
+ * @param rejected - Input index → failure message for items to skip
+ * @param fn - Processes one chunk of the remaining items
+ * @param options - Concurrency settings
+ * @returns Report with indexes referring to the original `items`
+ */
+export async function runBatchesSkipping<T>(
+  items: T[],
+  rejected: Map<number, string>,
+  fn: (chunk: T[]) => Promise<Array<Omit<BatchItemResult, "index">>>,
+  options?: BatchOptions
+): Promise<BatchReport> {
+  const kept = items.map((_, i) => i).filter((i) => !rejected.has(i));
+  const report = kept.length
+    ? await runBatches(kept.map((i) => items[i]), fn, options)
+    : { total: 0, succeeded: 0, failed: 0, results: [] };
+
+  const results = [
+    ...report.results.map((r) => ({ ...r, index: kept[r.index] })),
+    ...[...rejected].map(([index, error]) => ({ index, ok: false, error })),
+  ].sort((a, b) => a.index - b.index);
+
+  return {
+    total: items.length,
+    succeeded: report.succeeded,
+    failed: items.length - report.succeeded,
+    results,
+  };
+}
+
+/**
+ * Collects individual loads made in the same tick and fetches them together.
+ *
+ * Callers ask for one key at a time (e.g. from inside a per-key cache
+ * lookup); keys requested before the next turn of the event loop are
+ * deduplicated and handed to `fetchBatch` in one call. Keys the batch does
+ * not return resolve to undefined.
+ *
+ * @example
+ * const loader = new BatchLoader((ids) => fetchByIds(ids));
+ * const [a, b] = await Promise.all([loader.load("rec1"), loader.load("rec2")]); // one fetch
+ */
+export class BatchLoader<V> {
+  private pending = new Map<string, Array<{ resolve: (value: V | undefined) => void; reject: (error: unknown) => void }>>();
+  private scheduled = false;
+
+  constructor(private readonly fetchBatch: (keys: string[]) => Promise<Map<string, V>>) {}
+
+  load(key: string): Promise<V | undefined> {
+    return new Promise((resolve, reject) => {
+      const waiters = this.pending.get(key) || [];
+      waiters.push({ resolve, reject });
+      this.pending.set(key, waiters);
+      if (!this.scheduled) {
+        this.scheduled = true;
+        setImmediate(() => this.flush());
+      }
+    });
+  }
+
+  private async flush(): Promise<void> {
+    const batch = this.pending;
+    this.pending = new Map();
+    this.scheduled = false;
+    try {
+      const values = await this.fetchBatch([...batch.keys()]);
+      for (const [key, waiters] of batch) {
+        waiters.forEach((w) => w.resolve(values.get(key)));
+      }
+    } catch (error) {
+      for (const waiters of batch.values()) {
+        waiters.forEach((w) => w.reject(error));
+      }
+    }
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Cache Tags
+ *
+ * Cache keys carry the tags they should be evicted by, appended as
+ * `#tags|tag1|tag2|`. Because the tags live in the key itself, a write can
+ * evict every entry for a table or record with one pattern match, including
+ * entries cached by an earlier process. Tags are built from canonical base
+ * and table IDs (never table names), so an entry cached under a name and a
+ * write made by ID always agree.
+ */
+
+import { createCacheKey } from "@local/plugin-cache";
+
+/**
+ * Everything cached from one table's records: list pages, search results and
+ * single records. Any write to the table evicts all of them, along with the
+ * tags of the tables linked to or from it, since a change to one record can
+ * alter others (inverse links, lookups, rollups).
+ */
+export function tableTag(baseId: string, tableId: string): string {
+  return `table:${baseId}/${tableId}`;
+}
+
+/** Comments on a record. */
+export function commentsTag(baseId: string, tableId: string, recordId: string): string {
+  return `comments:${baseId}/${tableId}/${recordId}`;
+}
+
+/** Table list and table schemas of a base. */
+export function schemaTag(baseId: string): string {
+  return `schema:${baseId}`;
+}
+
+/**
+ * Builds a cache key that can be evicted by any of `tags`.
+ *
+ * @example
+ * taggedKey("record", { baseId, tableId, id }, [tableTag(baseId, tableId)]);
+ */
+export function taggedKey(prefix: string, params: Record<string, unknown>, tags: string[]): string {
+  return `${createCacheKey(prefix, params)}#tags|${tags.join("|")}|`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Pattern matching every key carrying `tag`.
+ */
+export function tagPattern(tag: string): RegExp {
+  return new RegExp(`#tags\\|(?:[^#]*\\|)?${escapeRegExp(tag)}\\|`);
+}
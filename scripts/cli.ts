@@ -5,8 +5,208 @@
  * Zod-validated CLI for Airtable database operations via MCP.
  */
 
-import { z, createCommand, runCli, cacheCommands, cliTypes } from "@local/cli-utils";
-import { AirtableMCPClient } from "./mcp-client.js";
+import { readFileSync, writeFileSync, createWriteStream } from "fs";
+import { join } from "path";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { z, createCommand as createCliCommand, runCli, cacheCommands, cliTypes } from "@local/cli-utils";
+import { AirtableMCPClient, type AirtableRecord, type SortSpec } from "./mcp-client.js";
+import { importRecords, formatFromPath, type ImportFormat } from "./import.js";
+import { exportRecords, renderTable, flattenValue, type ExportFormat } from "./export.js";
+import { parseGroupBy, parseMetrics } from "./aggregate.js";
+import { ConfigError, toAirtableError } from "./errors.js";
+import type { FieldSpec } from "./schema.js";
+import { pullSchema, diffSchema, applySchema, type BaseSnapshot } from "./schema-sync.js";
+import { generateTypes } from "./codegen.js";
+import { readTombstone, restoreTombstone } from "./tombstone.js";
+import { downloadAttachments, attachFile } from "./attachments.js";
+import { syncTables, queryLocal, mirrorStatus, defaultMirrorPath } from "./sync.js";
+import { and, parseWhere, type FilterInput } from "./formula.js";
+import { readJournal, recordHistory, undoChange } from "./journal.js";
+import { pollChanges, runHook, type WatchEvent } from "./watch.js";
+import { serveDaemon, startDaemon, stopDaemon, daemonStatus } from "./daemon.js";
+
+/**
+ * Parses "Date:desc,Name" into sort specs (direction defaults to asc).
+ */
+function parseSort(value?: string): SortSpec[] | undefined {
+  if (!value) return undefined;
+  return value.split(",").map((part) => {
+    const [field, direction] = part.split(":").map((p) => p.trim());
+    if (direction && direction !== "asc" && direction !== "desc") {
+      throw new Error(`Invalid sort direction "${direction}" for field "${field}" (use asc or desc)`);
+    }
+    return { field, direction: (direction || "asc") as "asc" | "desc" };
+  });
+}
+
+/**
+ * Parses a comma-separated list, dropping empty entries.
+ */
+function parseList(value?: string): string[] | undefined {
+  if (!value) return undefined;
+  return value.split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * Combines --filter (raw formula) and --where (shorthand) into one filter.
+ * The shorthand is read against the table's schema so values take the
+ * field's type.
+ */
+async function buildFilter(
+  client: AirtableMCPClient,
+  table: string,
+  base: string | undefined,
+  filter?: string,
+  where?: string
+): Promise<FilterInput | undefined> {
+  if (!where) return filter;
+  const compiled = parseWhere(where, await client.describeTable(table, base));
+  return filter ? and(filter, compiled) : compiled;
+}
+
+/**
+ * Reads text from a file, or from stdin when no file is given.
+ */
+async function readInput(file?: string): Promise<string> {
+  if (file) return readFileSync(file, "utf-8");
+  if (process.stdin.isTTY) {
+    throw new Error("No input: pass --file or pipe data on stdin");
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+/**
+ * Reads a JSON array of records from a file or stdin.
+ * Accepts both [{ fields: {...} }] and bare [{...}] field objects.
+ */
+async function readRecordsInput(file?: string): Promise<Array<Record<string, any>>> {
+  const input = JSON.parse(await readInput(file));
+  if (!Array.isArray(input)) {
+    throw new Error("Input must be a JSON array of records");
+  }
+  return input.map((item: any) =>
+    item && typeof item.fields === "object" ? item.fields : item
+  );
+}
+
+/**
+ * Reads a JSON or YAML spec from a file or stdin.
+ * YAML is a superset of JSON, so one parser handles both.
+ */
+async function readSpec(file?: string): Promise<any> {
+  return parseYaml(await readInput(file));
+}
+
+/**
+ * Normalises a date or timestamp option to an ISO timestamp.
+ */
+function parseTimestamp(value: string | undefined, flag: string): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${flag} "${value}" (use YYYY-MM-DD or an ISO timestamp)`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Writer for a stream that waits for `drain` when the stream's buffer is
+ * full, so a slow pipe reader throttles the producer instead of failing it.
+ */
+function streamWriter(stream: NodeJS.WritableStream): (text: string) => Promise<void> {
+  return (text) => new Promise((resolve, reject) => {
+    if (stream.write(text)) return resolve();
+    const onDrain = () => {
+      stream.off("error", onError);
+      resolve();
+    };
+    const onError = (error: Error) => {
+      stream.off("drain", onDrain);
+      reject(error);
+    };
+    stream.once("drain", onDrain);
+    stream.once("error", onError);
+  });
+}
+
+/** Default safety cap for update-where / delete-where. */
+const DEFAULT_WHERE_MAX = 100;
+
+/** Records shown in update-where / delete-where previews. */
+const WHERE_SAMPLE_SIZE = 5;
+
+/**
+ * Builds the preview printed by update-where / delete-where without --yes.
+ */
+function wherePreview(
+  matches: AirtableRecord[],
+  max: number,
+  action: "update" | "delete",
+  extra?: Record<string, any>
+): Record<string, any> {
+  const overCap = matches.length > max;
+  return {
+    preview: true,
+    count: matches.length,
+    max,
+    ...extra,
+    sample: matches.slice(0, WHERE_SAMPLE_SIZE),
+    hint: overCap
+      ? `${matches.length} records match, more than --max ${max}; narrow the filter or raise --max`
+      : `Re-run with --yes to ${action} these ${matches.length} records` +
+        (action === "delete" ? " (a tombstone backup is written first)" : ""),
+  };
+}
+
+/**
+ * Prints a failure as the CLI's stable JSON error envelope on stderr (stdout
+ * stays data only) and sets the exit status from its error code (see
+ * EXIT_CODES in errors.ts).
+ */
+function reportError(error: unknown): void {
+  const airtableError = toAirtableError(error);
+  process.stderr.write(JSON.stringify(airtableError, null, 2) + "\n");
+  process.exitCode = airtableError.exitCode;
+}
+
+/**
+ * Wraps a command handler with the CLI's output conventions:
+ * - Object results gain `requestStats` when any request was retried
+ * - Failures go through reportError instead of runCli's generic handler;
+ *   runCli still disconnects the client afterwards
+ */
+function wrapHandler<A>(
+  handler: (args: A, client: AirtableMCPClient) => Promise<any>
+): (args: A, client: AirtableMCPClient) => Promise<any> {
+  return async (args, client) => {
+    let result;
+    try {
+      result = await handler(args, client);
+    } catch (error) {
+      reportError(error);
+      return undefined;
+    }
+    const stats = client.getRequestStats();
+    if (stats.retries > 0 && result && typeof result === "object" && !Array.isArray(result)) {
+      return { ...result, requestStats: stats };
+    }
+    return result;
+  };
+}
+
+/**
+ * createCommand with every handler wrapped by wrapHandler, so all commands
+ * share the output conventions.
+ */
+function createCommand<S extends z.ZodTypeAny>(
+  schema: S,
+  handler: (args: z.infer<S>, client: AirtableMCPClient) => Promise<any>,
+  description?: string
+) {
+  return createCliCommand(schema, wrapHandler(handler), description);
+}
 
 // Define commands with Zod schemas
 const commands = {
@@ -30,7 +230,7 @@ const commands = {
 
   "list-tables": createCommand(
     z.object({
-      base: z.string().optional().describe("Base ID (uses default if omitted)"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
     }),
     async (args, client: AirtableMCPClient) => {
       const { base } = args as { base?: string };
@@ -42,7 +242,7 @@ const commands = {
   "describe-table": createCommand(
     z.object({
       table: z.string().min(1).describe("Table name"),
-      base: z.string().optional().describe("Base ID (uses default if omitted)"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
     }),
     async (args, client: AirtableMCPClient) => {
       const { table, base } = args as { table: string; base?: string };
@@ -54,38 +254,176 @@ const commands = {
   "list-records": createCommand(
     z.object({
       table: z.string().min(1).describe("Table name"),
-      base: z.string().optional().describe("Base ID (uses default if omitted)"),
-      limit: cliTypes.int(1, 100).optional().describe("Max records to return"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+      limit: cliTypes.int(1, 100000).optional().describe("Max records to return"),
       filter: z.string().optional().describe("Airtable filter formula"),
+      where: z.string().optional().describe("Filter shorthand, e.g. \"Status=In Stock,Qty>0\" (ANDed with --filter)"),
       view: z.string().optional().describe("Airtable view name"),
+      pageSize: cliTypes.int(1, 100).optional().describe("Records per page (max 100)"),
+      offset: z.string().optional().describe("Page cursor from a previous response"),
+      all: z.boolean().optional().describe("Follow offsets and return every page"),
+      sort: z.string().optional().describe("Sort keys, e.g. \"Date:desc,Name\""),
+      fieldsOnly: z.string().optional().describe("Comma-separated fields to return"),
+      expand: z.string().optional().describe("Link fields to inline, e.g. \"Order,Order.Customer\" (\"*\" = all)"),
+      expandDepth: cliTypes.int(1, 5).optional().describe("Maximum expansion depth (default: 3)"),
     }),
     async (args, client: AirtableMCPClient) => {
-      const { table, base, limit, filter, view } = args as {
+      const {
+        table, base, limit, filter, where, view, pageSize, offset, all, sort, fieldsOnly, expand, expandDepth,
+      } = args as {
         table: string;
         base?: string;
         limit?: number;
         filter?: string;
+        where?: string;
         view?: string;
+        pageSize?: number;
+        offset?: string;
+        all?: boolean;
+        sort?: string;
+        fieldsOnly?: string;
+        expand?: string;
+        expandDepth?: number;
       };
-      return client.listRecords(table, {
+      const options = {
         baseId: base,
         maxRecords: limit,
-        filterFormula: filter,
+        filterFormula: await buildFilter(client, table, base, filter, where),
+        view,
+        pageSize,
+        offset,
+        sort: parseSort(sort),
+        fields: parseList(fieldsOnly),
+        expand,
+        expandDepth,
+      };
+      if (all) {
+        return client.listAllRecords(table, options);
+      }
+      return client.listRecords(table, options);
+    },
+    "List records from a table (one page, or every page with --all)"
+  ),
+
+  export: createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      format: z.enum(["csv", "jsonl", "table"]).default("csv").describe("Output format"),
+      out: z.string().optional().describe("Output file (writes to stdout if omitted)"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+      filter: z.string().optional().describe("Airtable filter formula"),
+      where: z.string().optional().describe("Filter shorthand, e.g. \"Status=In Stock,Qty>0\" (ANDed with --filter)"),
+      view: z.string().optional().describe("Airtable view name"),
+      sort: z.string().optional().describe("Sort keys, e.g. \"Date:desc,Name\""),
+      fieldsOnly: z.string().optional().describe("Comma-separated fields to export"),
+      limit: cliTypes.int(1, 100000).optional().describe("Max records to export"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { table, format, out, base, filter, where, view, sort, fieldsOnly, limit } = args as {
+        table: string;
+        format: ExportFormat;
+        out?: string;
+        base?: string;
+        filter?: string;
+        where?: string;
+        view?: string;
+        sort?: string;
+        fieldsOnly?: string;
+        limit?: number;
+      };
+      const file = out ? createWriteStream(out) : undefined;
+      try {
+        const summary = await exportRecords(
+          client,
+          table,
+          {
+            format,
+            baseId: base,
+            filterFormula: await buildFilter(client, table, base, filter, where),
+            view,
+            sort: parseSort(sort),
+            fields: parseList(fieldsOnly),
+            maxRecords: limit,
+          },
+          streamWriter(file || process.stdout)
+        );
+        if (file) {
+          await new Promise<void>((resolve, reject) => {
+            file.once("error", reject);
+            file.end(resolve);
+          });
+        }
+        // With no --out the export itself is the output
+        return out ? { ...summary, file: out } : undefined;
+      } finally {
+        if (file && !file.writableFinished) file.destroy();
+      }
+    },
+    "Export a table as CSV, JSONL or a text table"
+  ),
+
+  aggregate: createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      groupBy: z.string().optional().describe("Group fields; suffix :day/:week/:month for dates, :explode for multi-value, e.g. \"Created:month,Tags:explode\""),
+      metrics: z.string().optional().describe("count, count:F, sum:F, avg:F, min:F, max:F, distinct:F (default: count)"),
+      filter: z.string().optional().describe("Airtable filter formula"),
+      where: z.string().optional().describe("Filter shorthand, e.g. \"Status=In Stock,Qty>0\" (ANDed with --filter)"),
+      view: z.string().optional().describe("Airtable view name"),
+      sort: z.string().optional().describe("Sort rows by output column, e.g. \"count:desc\""),
+      format: z.enum(["json", "table"]).default("json").describe("Output format"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { table, groupBy, metrics, filter, where, view, sort, format, base } = args as {
+        table: string;
+        groupBy?: string;
+        metrics?: string;
+        filter?: string;
+        where?: string;
+        view?: string;
+        sort?: string;
+        format: "json" | "table";
+        base?: string;
+      };
+      const result = await client.aggregate(table, {
+        baseId: base,
+        filterFormula: await buildFilter(client, table, base, filter, where),
         view,
+        groupBy: groupBy ? parseGroupBy(groupBy) : undefined,
+        metrics: metrics ? parseMetrics(metrics) : undefined,
+        sort: parseSort(sort),
       });
+      if (format === "table") {
+        const columns = [...result.groupBy, ...result.metrics];
+        const rows = result.rows.map((row) =>
+          columns.map((c) => (row[c] === null ? "(empty)" : flattenValue(row[c])))
+        );
+        process.stdout.write(renderTable(columns, rows));
+        return undefined;
+      }
+      return result;
     },
-    "List records from a table"
+    "Group records and compute counts, sums, averages, min/max and distinct counts"
   ),
 
   "get-record": createCommand(
     z.object({
       table: z.string().min(1).describe("Table name"),
       id: z.string().min(1).describe("Record ID"),
-      base: z.string().optional().describe("Base ID (uses default if omitted)"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+      expand: z.string().optional().describe("Link fields to inline, e.g. \"Order,Order.Customer\" (\"*\" = all)"),
+      expandDepth: cliTypes.int(1, 5).optional().describe("Maximum expansion depth (default: 3)"),
     }),
     async (args, client: AirtableMCPClient) => {
-      const { table, id, base } = args as { table: string; id: string; base?: string };
-      return client.getRecord(table, id, base);
+      const { table, id, base, expand, expandDepth } = args as {
+        table: string;
+        id: string;
+        base?: string;
+        expand?: string;
+        expandDepth?: number;
+      };
+      return client.getRecord(table, id, base, { expand, expandDepth });
     },
     "Get a single record by ID"
   ),
@@ -94,11 +432,27 @@ const commands = {
     z.object({
       table: z.string().min(1).describe("Table name"),
       query: z.string().min(1).describe("Search term"),
-      base: z.string().optional().describe("Base ID (uses default if omitted)"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+      filter: z.string().optional().describe("Only keep matches satisfying this formula"),
+      where: z.string().optional().describe("Filter shorthand, e.g. \"Status=In Stock,Qty>0\" (ANDed with --filter)"),
+      sort: z.string().optional().describe("Sort keys, e.g. \"Date:desc,Name\""),
+      fieldsOnly: z.string().optional().describe("Comma-separated fields to return"),
     }),
     async (args, client: AirtableMCPClient) => {
-      const { table, query, base } = args as { table: string; query: string; base?: string };
-      return client.searchRecords(table, query, base);
+      const { table, query, base, filter, where, sort, fieldsOnly } = args as {
+        table: string;
+        query: string;
+        base?: string;
+        filter?: string;
+        where?: string;
+        sort?: string;
+        fieldsOnly?: string;
+      };
+      return client.searchRecords(table, query, base, {
+        filter: await buildFilter(client, table, base, filter, where),
+        sort: parseSort(sort),
+        fields: parseList(fieldsOnly),
+      });
     },
     "Search records in a table"
   ),
@@ -107,32 +461,151 @@ const commands = {
     z.object({
       table: z.string().min(1).describe("Table name"),
       fields: z.string().min(1).describe("JSON object of field values"),
-      base: z.string().optional().describe("Base ID (uses default if omitted)"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+      dryRun: z.boolean().optional().describe("Print payload and validation report without writing"),
+      skipValidation: z.boolean().optional().describe("Send fields without checking the table schema"),
     }),
     async (args, client: AirtableMCPClient) => {
-      const { table, fields, base } = args as { table: string; fields: string; base?: string };
+      const { table, fields, base, dryRun, skipValidation } = args as {
+        table: string;
+        fields: string;
+        base?: string;
+        dryRun?: boolean;
+        skipValidation?: boolean;
+      };
       const parsedFields = JSON.parse(fields);
-      return client.createRecord(table, parsedFields, base);
+      if (dryRun) {
+        return client.previewCreate(table, [parsedFields], base);
+      }
+      return client.createRecord(table, parsedFields, base, { validate: !skipValidation });
     },
     "Create a new record"
   ),
 
+  "create-records": createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      file: z.string().optional().describe("JSON file with an array of records (reads stdin if omitted)"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+      concurrency: cliTypes.int(1, 10).optional().describe("Chunks of 10 sent in parallel (default 3)"),
+      dryRun: z.boolean().optional().describe("Print payload and validation report without writing"),
+      skipValidation: z.boolean().optional().describe("Send fields without checking the table schema"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { table, file, base, concurrency, dryRun, skipValidation } = args as {
+        table: string;
+        file?: string;
+        base?: string;
+        concurrency?: number;
+        dryRun?: boolean;
+        skipValidation?: boolean;
+      };
+      const records = await readRecordsInput(file);
+      if (dryRun) {
+        return client.previewCreate(table, records, base);
+      }
+      return client.createRecords(table, records, base, { concurrency, validate: !skipValidation });
+    },
+    "Create many records from a JSON array (chunked 10 per request)"
+  ),
+
+  "upsert-records": createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      mergeOn: z.string().min(1).describe("Comma-separated fields that identify a record"),
+      file: z.string().optional().describe("JSON file with an array of records (reads stdin if omitted)"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+      concurrency: cliTypes.int(1, 10).optional().describe("Chunks of 10 sent in parallel (default 3)"),
+      dryRun: z.boolean().optional().describe("Print payload and validation report without writing"),
+      skipValidation: z.boolean().optional().describe("Send fields without checking the table schema"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { table, mergeOn, file, base, concurrency, dryRun, skipValidation } = args as {
+        table: string;
+        mergeOn: string;
+        file?: string;
+        base?: string;
+        concurrency?: number;
+        dryRun?: boolean;
+        skipValidation?: boolean;
+      };
+      const records = await readRecordsInput(file);
+      return client.upsertRecords(
+        table,
+        records,
+        { mergeOn: parseList(mergeOn)!, concurrency, dryRun, validate: !skipValidation },
+        base
+      );
+    },
+    "Update records matching --merge-on fields, create the rest"
+  ),
+
+  "import": createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      file: z.string().optional().describe("CSV or JSONL file (reads stdin if omitted)"),
+      format: z.enum(["csv", "jsonl"]).optional().describe("Input format (inferred from --file extension)"),
+      mapping: z.string().optional().describe("JSON file mapping column → field name (null skips)"),
+      mergeOn: z.string().optional().describe("Upsert on these comma-separated fields instead of creating"),
+      rejects: z.string().optional().describe("Where to write rejected rows as JSONL"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+      concurrency: cliTypes.int(1, 10).optional().describe("Chunks of 10 sent in parallel (default 3)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { table, file, format, mapping, mergeOn, rejects, base, concurrency } = args as {
+        table: string;
+        file?: string;
+        format?: ImportFormat;
+        mapping?: string;
+        mergeOn?: string;
+        rejects?: string;
+        base?: string;
+        concurrency?: number;
+      };
+      const resolvedFormat = format || (file ? formatFromPath(file) : undefined);
+      if (!resolvedFormat) {
+        throw new Error("Cannot infer input format: pass --format csv or --format jsonl");
+      }
+      const report = await importRecords(client, table, await readInput(file), {
+        format: resolvedFormat,
+        mapping: mapping ? JSON.parse(readFileSync(mapping, "utf-8")) : undefined,
+        mergeOn: parseList(mergeOn),
+        baseId: base,
+        concurrency,
+      });
+
+      const { rejects: rejectedRows, ...summary } = report;
+      if (!rejectedRows.length) return summary;
+      const rejectsFile = rejects || `${file || "import"}.rejects.jsonl`;
+      writeFileSync(rejectsFile, rejectedRows.map((r) => JSON.stringify(r)).join("\n") + "\n");
+      return { ...summary, rejectsFile };
+    },
+    "Import CSV/JSONL rows with schema-aware type coercion"
+  ),
+
   "update-record": createCommand(
     z.object({
       table: z.string().min(1).describe("Table name"),
       id: z.string().min(1).describe("Record ID"),
       fields: z.string().min(1).describe("JSON object of field values"),
-      base: z.string().optional().describe("Base ID (uses default if omitted)"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+      dryRun: z.boolean().optional().describe("Print payload and validation report without writing"),
+      skipValidation: z.boolean().optional().describe("Send fields without checking the table schema"),
     }),
     async (args, client: AirtableMCPClient) => {
-      const { table, id, fields, base } = args as {
+      const { table, id, fields, base, dryRun, skipValidation } = args as {
         table: string;
         id: string;
         fields: string;
         base?: string;
+        dryRun?: boolean;
+        skipValidation?: boolean;
       };
       const parsedFields = JSON.parse(fields);
-      return client.updateRecords(table, [{ id, fields: parsedFields }], base);
+      if (dryRun) {
+        return client.previewUpdate(table, [{ id, fields: parsedFields }], base);
+      }
+      return client.updateRecords(table, [{ id, fields: parsedFields }], base, { validate: !skipValidation });
     },
     "Update an existing record"
   ),
@@ -142,32 +615,689 @@ const commands = {
       table: z.string().min(1).describe("Table name"),
       id: z.string().optional().describe("Single record ID"),
       ids: z.string().optional().describe("Comma-separated record IDs"),
-      base: z.string().optional().describe("Base ID (uses default if omitted)"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+      yes: z.boolean().optional().describe("Actually delete (otherwise only preview)"),
     }).refine(
       (data) => data.id !== undefined || data.ids !== undefined,
       { message: "Either --id or --ids is required" }
     ),
     async (args, client: AirtableMCPClient) => {
-      const { table, id, ids, base } = args as {
+      const { table, id, ids, base, yes } = args as {
         table: string;
         id?: string;
         ids?: string;
         base?: string;
+        yes?: boolean;
       };
       const recordIds = ids
         ? ids.split(",").map((rid) => rid.trim())
         : [id!];
+      if (!yes) {
+        const records = await client.fetchRecordsById(table, recordIds, base);
+        const found = new Set(records.map((r) => r.id));
+        return {
+          preview: true,
+          count: records.length,
+          notFound: recordIds.filter((rid) => !found.has(rid)),
+          records,
+          hint: "Re-run with --yes to delete these records (a tombstone backup is written first)",
+        };
+      }
       return client.deleteRecords(table, recordIds, base);
     },
-    "Delete records by ID"
+    "Delete records by ID (preview unless --yes; backs up to a tombstone file)"
+  ),
+
+  "update-where": createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      filter: z.string().optional().describe("Airtable formula selecting the records to update"),
+      where: z.string().optional().describe("Filter shorthand, e.g. \"Status=In Stock,Qty>0\" (ANDed with --filter)"),
+      set: z.string().min(1).describe("JSON object of field values to set on every match"),
+      view: z.string().optional().describe("Only consider records in this view"),
+      max: cliTypes.int(1, 100000).optional().describe(`Refuse if more records match (default: ${DEFAULT_WHERE_MAX})`),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+      yes: z.boolean().optional().describe("Actually update (otherwise only preview)"),
+      skipValidation: z.boolean().optional().describe("Send fields without checking the table schema"),
+      concurrency: cliTypes.int(1, 10).optional().describe("Write requests in flight at once (default: 3)"),
+    }).refine(
+      (data) => data.filter !== undefined || data.where !== undefined,
+      { message: "Either --filter or --where is required" }
+    ),
+    async (args, client: AirtableMCPClient) => {
+      const { table, filter, where, set, view, max = DEFAULT_WHERE_MAX, base, yes, skipValidation, concurrency } = args as {
+        table: string;
+        filter?: string;
+        where?: string;
+        set: string;
+        view?: string;
+        max?: number;
+        base?: string;
+        yes?: boolean;
+        skipValidation?: boolean;
+        concurrency?: number;
+      };
+      const fields = JSON.parse(set);
+      const formula = (await buildFilter(client, table, base, filter, where))!;
+      if (!yes) {
+        const matches = await client.matchRecords(table, formula, { baseId: base, view });
+        return wherePreview(matches, max, "update", { set: fields });
+      }
+      return client.updateWhere(table, formula, fields, {
+        baseId: base,
+        view,
+        max,
+        validate: !skipValidation,
+        concurrency,
+      });
+    },
+    "Set fields on every record matching a formula (preview unless --yes)"
+  ),
+
+  "delete-where": createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      filter: z.string().optional().describe("Airtable formula selecting the records to delete"),
+      where: z.string().optional().describe("Filter shorthand, e.g. \"Status=In Stock,Qty>0\" (ANDed with --filter)"),
+      view: z.string().optional().describe("Only consider records in this view"),
+      max: cliTypes.int(1, 100000).optional().describe(`Refuse if more records match (default: ${DEFAULT_WHERE_MAX})`),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+      yes: z.boolean().optional().describe("Actually delete (otherwise only preview)"),
+    }).refine(
+      (data) => data.filter !== undefined || data.where !== undefined,
+      { message: "Either --filter or --where is required" }
+    ),
+    async (args, client: AirtableMCPClient) => {
+      const { table, filter, where, view, max = DEFAULT_WHERE_MAX, base, yes } = args as {
+        table: string;
+        filter?: string;
+        where?: string;
+        view?: string;
+        max?: number;
+        base?: string;
+        yes?: boolean;
+      };
+      const formula = (await buildFilter(client, table, base, filter, where))!;
+      if (!yes) {
+        const matches = await client.matchRecords(table, formula, { baseId: base, view });
+        return wherePreview(matches, max, "delete");
+      }
+      return client.deleteWhere(table, formula, { baseId: base, view, max });
+    },
+    "Delete every record matching a formula (preview unless --yes; backs up to a tombstone file)"
+  ),
+
+  "download-attachments": createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      dir: z.string().min(1).describe("Directory to download into (manifest.json is written there)"),
+      id: z.string().optional().describe("Single record ID (otherwise --filter/--where/--view select records)"),
+      filter: z.string().optional().describe("Airtable filter formula"),
+      where: z.string().optional().describe("Filter shorthand, e.g. \"Status=In Stock,Qty>0\" (ANDed with --filter)"),
+      view: z.string().optional().describe("Airtable view name"),
+      field: z.string().optional().describe("Comma-separated attachment fields (default: all)"),
+      limit: cliTypes.int(1, 100000).optional().describe("Max records to download from"),
+      force: z.boolean().optional().describe("Re-download files that already exist"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { table, dir, id, filter, where, view, field, limit, force, base } = args as {
+        table: string;
+        dir: string;
+        id?: string;
+        filter?: string;
+        where?: string;
+        view?: string;
+        field?: string;
+        limit?: number;
+        force?: boolean;
+        base?: string;
+      };
+      return downloadAttachments(client, table, {
+        dir,
+        baseId: base,
+        recordId: id,
+        filterFormula: await buildFilter(client, table, base, filter, where),
+        view,
+        maxRecords: limit,
+        fields: parseList(field),
+        force,
+      });
+    },
+    "Download attachment files for a record or filtered set, with a manifest"
+  ),
+
+  attach: createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      id: z.string().min(1).describe("Record ID"),
+      field: z.string().min(1).describe("Attachment field name"),
+      file: z.string().optional().describe("Local file to upload (max 5 MB)"),
+      url: z.string().optional().describe("Public URL for Airtable to fetch"),
+      filename: z.string().optional().describe("Filename to store (defaults to the file/URL name)"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+    }).refine(
+      (data) => (data.file === undefined) !== (data.url === undefined),
+      { message: "Exactly one of --file or --url is required" }
+    ),
+    async (args, client: AirtableMCPClient) => {
+      const { table, id, field, file, url, filename, base } = args as {
+        table: string;
+        id: string;
+        field: string;
+        file?: string;
+        url?: string;
+        filename?: string;
+        base?: string;
+      };
+      return attachFile(client, table, id, field, (file || url)!, { filename, baseId: base });
+    },
+    "Add a file or URL to an attachment field (keeps existing attachments)"
+  ),
+
+  "restore-deleted": createCommand(
+    z.object({
+      file: z.string().min(1).describe("Tombstone file written by delete-records"),
+      table: z.string().optional().describe("Restore into this table instead of the original"),
+      base: z.string().optional().describe("Restore into this base instead of the original"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { file, table, base } = args as { file: string; table?: string; base?: string };
+      return restoreTombstone(client, readTombstone(file), { table, baseId: base });
+    },
+    "Re-create deleted records from a tombstone file (new records get new IDs)"
+  ),
+
+  history: createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      id: z.string().min(1).describe("Record ID"),
+      from: z.string().optional().describe("Also show the net diff from this date/time"),
+      to: z.string().optional().describe("...up to this date/time (default: latest)"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { table, id, from, to, base } = args as {
+        table: string;
+        id: string;
+        from?: string;
+        to?: string;
+        base?: string;
+      };
+      const entries = readJournal(client.getJournalPath());
+      if (!entries.length && !client.isJournalEnabled()) {
+        throw new ConfigError("The journal is off: set \"journal\": true in config.json or AIRTABLE_JOURNAL=on");
+      }
+      const baseId = await client.resolveBaseId(base);
+      const tableId = await client.resolveTableId(table, baseId);
+      return recordHistory(entries, baseId, tableId, id, {
+        from: parseTimestamp(from, "--from"),
+        to: parseTimestamp(to, "--to"),
+      });
+    },
+    "Show a record's field-level change timeline from the local journal"
+  ),
+
+  undo: createCommand(
+    z.object({
+      txn: z.string().optional().describe("Journal transaction to revert (default: the last change)"),
+      yes: z.boolean().optional().describe("Revert (otherwise only show the plan)"),
+      force: z.boolean().optional().describe("Also revert records that were changed again since"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { txn, yes, force } = args as { txn?: string; yes?: boolean; force?: boolean };
+      const result = await undoChange(client, { txn, apply: yes, force });
+      if (yes) return result;
+      return {
+        preview: true,
+        ...result,
+        hint: result.conflicts.length && !force
+          ? `${result.conflicts.length} records changed again since; they are skipped unless --force ` +
+            `and can still be reverted later with --txn ${result.txn}`
+          : `Re-run with --yes --txn ${result.txn} to revert this ${result.op}` +
+            (result.partial ? ` (${result.records} of its ${result.transactionRecords} records)` : ""),
+      };
+    },
+    "Revert the last journaled change (plan unless --yes)"
+  ),
+
+  sync: createCommand(
+    z.object({
+      table: z.string().optional().describe("Comma-separated tables to mirror"),
+      db: z.string().optional().describe("SQLite file (default: data/mirror.db)"),
+      full: z.boolean().optional().describe("Refetch everything and reconcile deletions"),
+      reconcileHours: cliTypes.int(0, 8760).optional().describe("Hours between deletion checks (default: 24)"),
+      status: z.boolean().optional().describe("Show mirrored tables and last sync times instead of syncing"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+    }).refine(
+      (data) => data.table !== undefined || data.status,
+      { message: "Either --table or --status is required" }
+    ),
+    async (args, client: AirtableMCPClient) => {
+      const { table, db, full, reconcileHours, status, base } = args as {
+        table?: string;
+        db?: string;
+        full?: boolean;
+        reconcileHours?: number;
+        status?: boolean;
+        base?: string;
+      };
+      const dbPath = db || defaultMirrorPath(client);
+      if (status) {
+        return { db: dbPath, tables: mirrorStatus(dbPath) };
+      }
+      const tables = await syncTables(client, parseList(table)!, { baseId: base, dbPath, full, reconcileHours });
+      return { db: dbPath, tables };
+    },
+    "Mirror tables into a local SQLite file (incremental after the first run)"
+  ),
+
+  query: createCommand(
+    z.object({
+      local: z.string().min(1).describe("SQL to run against the local mirror, e.g. \"SELECT * FROM \\\"Products\\\"\""),
+      db: z.string().optional().describe("SQLite file (default: data/mirror.db)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { local, db } = args as { local: string; db?: string };
+      return queryLocal(db || defaultMirrorPath(client), local);
+    },
+    "Run a read-only SQL query against the local mirror (no Airtable requests)"
+  ),
+
+  watch: createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      field: z.string().optional().describe("Comma-separated fields to watch (default: all; other edits are ignored)"),
+      exec: z.string().optional().describe("Shell command run per event (event JSON on stdin) instead of printing JSONL"),
+      once: z.boolean().optional().describe("Poll once and exit (for cron)"),
+      interval: cliTypes.int(5, 86400).default(30).describe("Seconds between polls"),
+      state: z.string().optional().describe("State file (default: data/watch/<base>-<table>.json)"),
+      reconcileMinutes: cliTypes.int(0, 10080).optional().describe("Minutes between deletion checks (default: 10)"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { table, field, exec, once, interval, state, reconcileMinutes, base } = args as {
+        table: string;
+        field?: string;
+        exec?: string;
+        once?: boolean;
+        interval: number;
+        state?: string;
+        reconcileMinutes?: number;
+        base?: string;
+      };
+      const emit = exec
+        ? (event: WatchEvent) => runHook(exec, event)
+        : (event: WatchEvent) => { process.stdout.write(JSON.stringify(event) + "\n"); };
+      const options = { baseId: base, fields: parseList(field), statePath: state, reconcileMinutes };
+      // Events own stdout; poll summaries and errors go to stderr
+      const report = (entry: Record<string, any>) => process.stderr.write(JSON.stringify(entry) + "\n");
+
+      // Errors on the first poll (bad table, field or config) end the command
+      report({ poll: await pollChanges(client, table, options, emit) });
+      if (once) return undefined;
+
+      let stopping = false;
+      let timer: NodeJS.Timeout | undefined;
+      let wake: () => void = () => {};
+      const stop = () => {
+        stopping = true;
+        clearTimeout(timer);
+        wake();
+      };
+      process.once("SIGINT", stop);
+      process.once("SIGTERM", stop);
+      while (!stopping) {
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+          timer = setTimeout(resolve, interval * 1000);
+        });
+        if (stopping) break;
+        try {
+          report({ poll: await pollChanges(client, table, options, emit) });
+        } catch (error) {
+          // Transient failures and failed hooks are retried on the next poll
+          report(toAirtableError(error).toJSON());
+        }
+      }
+      return undefined;
+    },
+    "Poll a table for created/updated/deleted records and print JSONL events (or run --exec per event)"
+  ),
+
+  "list-comments": createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      id: z.string().min(1).describe("Record ID"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+      pageSize: cliTypes.int(1, 100).optional().describe("Comments per page (max 100)"),
+      offset: z.string().optional().describe("Page cursor from a previous response"),
+      all: z.boolean().optional().describe("Follow offsets and return every comment"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { table, id, base, pageSize, offset, all } = args as {
+        table: string;
+        id: string;
+        base?: string;
+        pageSize?: number;
+        offset?: string;
+        all?: boolean;
+      };
+      if (all) {
+        return { comments: await client.listAllComments(table, id, base) };
+      }
+      return client.listComments(table, id, { baseId: base, pageSize, offset });
+    },
+    "List comments on a record (mentions rendered in renderedText)"
+  ),
+
+  "add-comment": createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      id: z.string().min(1).describe("Record ID"),
+      text: z.string().min(1).describe("Comment text (mention users with @[usrXXXXXXXXXXXXXX])"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { table, id, text, base } = args as { table: string; id: string; text: string; base?: string };
+      return client.createComment(table, id, text, base);
+    },
+    "Add a comment to a record"
+  ),
+
+  "update-comment": createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      id: z.string().min(1).describe("Record ID"),
+      comment: z.string().min(1).describe("Comment ID"),
+      text: z.string().min(1).describe("New comment text"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { table, id, comment, text, base } = args as {
+        table: string;
+        id: string;
+        comment: string;
+        text: string;
+        base?: string;
+      };
+      return client.updateComment(table, id, comment, text, base);
+    },
+    "Edit one of your comments on a record"
+  ),
+
+  "delete-comment": createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      id: z.string().min(1).describe("Record ID"),
+      comment: z.string().min(1).describe("Comment ID"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+      yes: z.boolean().optional().describe("Actually delete (otherwise only preview)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { table, id, comment, base, yes } = args as {
+        table: string;
+        id: string;
+        comment: string;
+        base?: string;
+        yes?: boolean;
+      };
+      if (!yes) {
+        const comments = await client.listAllComments(table, id, base);
+        return {
+          preview: true,
+          comment: comments.find((c) => c.id === comment) || null,
+          hint: "Re-run with --yes to delete this comment (it cannot be restored)",
+        };
+      }
+      return client.deleteComment(table, id, comment, base);
+    },
+    "Delete one of your comments on a record (preview unless --yes)"
+  ),
+
+  "create-table": createCommand(
+    z.object({
+      name: z.string().min(1).describe("New table name"),
+      spec: z.string().optional().describe("JSON/YAML file: list of fields, or { description, fields } (reads stdin if omitted)"),
+      description: z.string().optional().describe("Table description"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { name, spec, description, base } = args as {
+        name: string;
+        spec?: string;
+        description?: string;
+        base?: string;
+      };
+      const parsed = await readSpec(spec);
+      const fields: FieldSpec[] = Array.isArray(parsed) ? parsed : parsed?.fields;
+      if (!Array.isArray(fields) || fields.length === 0) {
+        throw new Error("Spec must list at least one field (the first becomes the primary field)");
+      }
+      return client.createTable(name, fields, {
+        description: description ?? (Array.isArray(parsed) ? undefined : parsed.description),
+        baseId: base,
+      });
+    },
+    "Create a table from a JSON/YAML field spec"
+  ),
+
+  "create-field": createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      spec: z.string().optional().describe("JSON/YAML file with { name, type, description, options } (reads stdin if omitted)"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { table, spec, base } = args as { table: string; spec?: string; base?: string };
+      const field: FieldSpec = await readSpec(spec);
+      if (!field?.name || !field?.type) {
+        throw new Error("Field spec requires name and type");
+      }
+      return client.createField(table, field, base);
+    },
+    "Add a field to a table from a JSON/YAML spec"
+  ),
+
+  "update-field": createCommand(
+    z.object({
+      table: z.string().min(1).describe("Table name"),
+      field: z.string().min(1).describe("Field name or ID"),
+      name: z.string().optional().describe("New field name"),
+      description: z.string().optional().describe("New field description"),
+      spec: z.string().optional().describe("JSON/YAML file with { name, description, options }"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { table, field, name, description, spec, base } = args as {
+        table: string;
+        field: string;
+        name?: string;
+        description?: string;
+        spec?: string;
+        base?: string;
+      };
+      const changes = {
+        ...(spec ? await readSpec(spec) : {}),
+        ...(name !== undefined ? { name } : {}),
+        ...(description !== undefined ? { description } : {}),
+      };
+      if (Object.keys(changes).length === 0) {
+        throw new Error("Nothing to update: pass --name, --description or --spec");
+      }
+      return client.updateField(table, field, changes, base);
+    },
+    "Rename a field or change its description/options"
+  ),
+
+  "schema-pull": createCommand(
+    z.object({
+      out: z.string().min(1).describe("Snapshot file (.json, .yaml or .yml)"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { out, base } = args as { out: string; base?: string };
+      const snapshot = await pullSchema(client, base);
+      const text = /\.ya?ml$/i.test(out)
+        ? stringifyYaml(snapshot)
+        : JSON.stringify(snapshot, null, 2) + "\n";
+      writeFileSync(out, text);
+      return {
+        file: out,
+        baseId: snapshot.baseId,
+        tables: snapshot.tables.length,
+        fields: snapshot.tables.reduce((n, t) => n + t.fields.length, 0),
+      };
+    },
+    "Write every table and field of a base to a JSON/YAML snapshot"
+  ),
+
+  "schema-diff": createCommand(
+    z.object({
+      file: z.string().min(1).describe("Snapshot file to compare against the live base"),
+      base: z.string().optional().describe("Base ID (defaults to the file's baseId)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { file, base } = args as { file: string; base?: string };
+      const desired: BaseSnapshot = await readSpec(file);
+      const live = await pullSchema(client, base || desired.baseId);
+      const changes = diffSchema(desired, live);
+      return { baseId: live.baseId, inSync: changes.length === 0, changes };
+    },
+    "Compare a schema snapshot with the live base"
+  ),
+
+  "schema-apply": createCommand(
+    z.object({
+      file: z.string().min(1).describe("Snapshot file describing the desired schema"),
+      base: z.string().optional().describe("Base ID (defaults to the file's baseId)"),
+      yes: z.boolean().optional().describe("Apply the plan (otherwise only print it)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { file, base, yes } = args as { file: string; base?: string; yes?: boolean };
+      const desired: BaseSnapshot = await readSpec(file);
+      const baseId = base || desired.baseId;
+      const changes = diffSchema(desired, await pullSchema(client, baseId));
+      const plan = changes.filter((c) => c.applicable);
+      const manual = changes.filter((c) => !c.applicable);
+
+      if (!yes) {
+        return { baseId, applied: false, plan, manual, hint: "Re-run with --yes to apply the plan" };
+      }
+      const results = await applySchema(client, plan, baseId);
+      return {
+        baseId,
+        applied: true,
+        succeeded: results.filter((r) => r.ok).length,
+        failed: results.filter((r) => !r.ok),
+        manual,
+      };
+    },
+    "Create missing tables/fields and apply renames from a snapshot (plan unless --yes)"
+  ),
+
+  codegen: createCommand(
+    z.object({
+      table: z.string().optional().describe("Table name (all tables if omitted)"),
+      out: z.string().optional().describe("Output .ts file (writes to stdout if omitted)"),
+      zod: z.boolean().optional().describe("Also emit Zod schemas"),
+      base: z.string().optional().describe("Base ID or name (uses default if omitted)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { table, out, zod, base } = args as {
+        table?: string;
+        out?: string;
+        zod?: boolean;
+        base?: string;
+      };
+      const tables = table
+        ? [await client.describeTable(table, base)]
+        : (await pullSchema(client, base)).tables.map((t) => ({ ...t, id: t.id! }));
+      const source = generateTypes(tables, { zod });
+      if (!out) {
+        process.stdout.write(source);
+        return undefined;
+      }
+      writeFileSync(out, source);
+      return { file: out, tables: tables.map((t) => t.name) };
+    },
+    "Generate TypeScript field types (and Zod schemas) from table schemas"
+  ),
+
+  "list-profiles": createCommand(
+    z.object({}),
+    async (_args, client: AirtableMCPClient) => client.listProfiles(),
+    "List the profiles defined in config.json (select one with --profile)"
+  ),
+
+  "daemon-start": createCommand(
+    z.object({
+      idleMinutes: cliTypes.int(1, 1440).optional().describe("Exit after this many idle minutes (default: 15)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { idleMinutes } = args as { idleMinutes?: number };
+      const command = [process.argv[1], "daemon-run"];
+      if (idleMinutes) command.push("--idle-minutes", String(idleMinutes));
+      return startDaemon(client.getDaemonConfig().socketPath, command, join(client.getDataDir(), "daemon.log"));
+    },
+    "Start a background daemon that keeps the MCP connection open for later commands"
+  ),
+
+  "daemon-stop": createCommand(
+    z.object({}),
+    async (_args, client: AirtableMCPClient) => stopDaemon(client.getDaemonConfig().socketPath),
+    "Stop the background daemon"
+  ),
+
+  "daemon-status": createCommand(
+    z.object({}),
+    async (_args, client: AirtableMCPClient) => daemonStatus(client.getDaemonConfig().socketPath),
+    "Show whether the daemon is running, its uptime and request count"
+  ),
+
+  "daemon-run": createCommand(
+    z.object({
+      idleMinutes: cliTypes.int(1, 1440).optional().describe("Exit after this many idle minutes (default: 15)"),
+    }),
+    async (args, client: AirtableMCPClient) => {
+      const { idleMinutes } = args as { idleMinutes?: number };
+      const config = client.getDaemonConfig();
+      await serveDaemon(client, {
+        socketPath: config.socketPath,
+        idleMinutes: idleMinutes ?? config.idleMinutes,
+      });
+      return { stopped: true, socket: config.socketPath };
+    },
+    "Run the daemon in the foreground (used by daemon-start)"
   ),
 
   // Pre-built cache commands
   ...cacheCommands<AirtableMCPClient>(),
 };
 
+/**
+ * Moves the global --profile flag (accepted before or after the command) into
+ * AIRTABLE_PROFILE, where the client and any daemon it starts pick it up.
+ */
+function applyProfileFlag(argv: string[]): void {
+  const index = argv.findIndex((arg) => arg === "--profile" || arg.startsWith("--profile="));
+  if (index === -1) return;
+  const [flag, inline] = argv[index].split(/=(.*)/s);
+  const name = inline ?? argv[index + 1];
+  if (!name || name.startsWith("--")) {
+    throw new ConfigError(`${flag} needs a profile name`);
+  }
+  process.env.AIRTABLE_PROFILE = name;
+  argv.splice(index, inline === undefined ? 2 : 1);
+}
+
 // Run CLI
-runCli(commands, AirtableMCPClient, {
-  programName: "airtable-cli",
-  description: "Airtable database operations via MCP",
-});
+try {
+  applyProfileFlag(process.argv);
+  runCli(commands, AirtableMCPClient, {
+    programName: "airtable-cli",
+    description: "Airtable database operations via MCP",
+  });
+} catch (error) {
+  reportError(error);
+}
@@ -0,0 +1,249 @@
+/**
+ * Type Generation
+ *
+ * Emits TypeScript interfaces (and optionally Zod schemas) for table fields
+ * from describe_table output, for use with the generic listRecords<T> /
+ * getRecord<T> client methods.
+ */
+
+import { type FieldSchema, type TableSchema, NUMERIC_FIELD_TYPES, TEXT_FIELD_TYPES, READ_ONLY_FIELD_TYPES } from "./schema.js";
+
+export interface CodegenOptions {
+  /** Also emit Zod schemas (imports "zod") */
+  zod?: boolean;
+}
+
+const HEADER = `// Generated by airtable-cli codegen. Do not edit by hand; re-run codegen instead.
+`;
+
+const SHARED_TYPES = `export interface AirtableAttachment {
+  id: string;
+  url: string;
+  filename: string;
+  size?: number;
+  type?: string;
+  width?: number;
+  height?: number;
+  thumbnails?: Record<string, { url: string; width: number; height: number }>;
+}
+
+export interface AirtableCollaborator {
+  id: string;
+  email?: string;
+  name?: string;
+}
+`;
+
+const SHARED_ZOD = `export const AirtableAttachmentSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  filename: z.string(),
+  size: z.number().optional(),
+  type: z.string().optional(),
+}).passthrough();
+
+export const AirtableCollaboratorSchema = z.object({
+  id: z.string(),
+  email: z.string().optional(),
+  name: z.string().optional(),
+}).passthrough();
+`;
+
+/**
+ * Turns a table name into a PascalCase identifier.
+ *
+ * @example
+ * typeName("Products [ManufacturerName]"); // "ProductsManufacturerName"
+ */
+export function typeName(name: string): string {
+  const words = name.match(/[A-Za-z0-9]+/g) || ["Table"];
+  const pascal = words.map((w) => w[0].toUpperCase() + w.slice(1)).join("");
+  return /^[0-9]/.test(pascal) ? `T${pascal}` : pascal;
+}
+
+/**
+ * Result type of computed fields (formula, rollup, lookup), when the schema
+ * says what it is.
+ */
+function resultField(field: FieldSchema): FieldSchema | undefined {
+  const result = field.options?.result;
+  return result?.type ? { ...field, type: result.type, options: result.options } : undefined;
+}
+
+/**
+ * Maps a field to a TypeScript type expression.
+ */
+export function tsType(field: FieldSchema): string {
+  if (TEXT_FIELD_TYPES.has(field.type)) return "string";
+  if (NUMERIC_FIELD_TYPES.has(field.type)) return "number";
+
+  switch (field.type) {
+    case "autoNumber":
+    case "count":
+      return "number";
+    case "checkbox":
+      return "boolean";
+    case "date":
+    case "dateTime":
+    case "createdTime":
+    case "lastModifiedTime":
+      return "string";
+    case "singleSelect": {
+      const choices = field.options?.choices || [];
+      return choices.length ? choices.map((c) => JSON.stringify(c.name)).join(" | ") : "string";
+    }
+    case "multipleSelects": {
+      const choices = field.options?.choices || [];
+      return choices.length ? `Array<${choices.map((c) => JSON.stringify(c.name)).join(" | ")}>` : "string[]";
+    }
+    case "multipleRecordLinks":
+      return "string[]";
+    case "multipleAttachments":
+      return "AirtableAttachment[]";
+    case "singleCollaborator":
+    case "createdBy":
+    case "lastModifiedBy":
+      return "AirtableCollaborator";
+    case "multipleCollaborators":
+      return "AirtableCollaborator[]";
+    case "barcode":
+      return "{ text: string; type?: string }";
+    case "button":
+      return "{ label: string; url: string | null }";
+    case "formula":
+    case "rollup": {
+      const result = resultField(field);
+      return result ? tsType(result) : "unknown";
+    }
+    case "lookup":
+    case "multipleLookupValues": {
+      const result = resultField(field);
+      return result ? `Array<${tsType(result)}>` : "unknown[]";
+    }
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * Maps a field to a Zod schema expression.
+ */
+export function zodType(field: FieldSchema): string {
+  if (TEXT_FIELD_TYPES.has(field.type)) return "z.string()";
+  if (NUMERIC_FIELD_TYPES.has(field.type)) return "z.number()";
+
+  switch (field.type) {
+    case "autoNumber":
+    case "count":
+      return "z.number()";
+    case "checkbox":
+      return "z.boolean()";
+    case "date":
+    case "dateTime":
+    case "createdTime":
+    case "lastModifiedTime":
+      return "z.string()";
+    case "singleSelect": {
+      const choices = field.options?.choices || [];
+      return choices.length ? `z.enum([${choices.map((c) => JSON.stringify(c.name)).join(", ")}])` : "z.string()";
+    }
+    case "multipleSelects": {
+      const choices = field.options?.choices || [];
+      return choices.length
+        ? `z.array(z.enum([${choices.map((c) => JSON.stringify(c.name)).join(", ")}]))`
+        : "z.array(z.string())";
+    }
+    case "multipleRecordLinks":
+      return "z.array(z.string())";
+    case "multipleAttachments":
+      return "z.array(AirtableAttachmentSchema)";
+    case "singleCollaborator":
+    case "createdBy":
+    case "lastModifiedBy":
+      return "AirtableCollaboratorSchema";
+    case "multipleCollaborators":
+      return "z.array(AirtableCollaboratorSchema)";
+    case "barcode":
+      return "z.object({ text: z.string(), type: z.string().optional() })";
+    case "button":
+      return "z.object({ label: z.string(), url: z.string().nullable() })";
+    case "formula":
+    case "rollup": {
+      const result = resultField(field);
+      return result ? zodType(result) : "z.unknown()";
+    }
+    case "lookup":
+    case "multipleLookupValues": {
+      const result = resultField(field);
+      return result ? `z.array(${zodType(result)})` : "z.array(z.unknown())";
+    }
+    default:
+      return "z.unknown()";
+  }
+}
+
+/**
+ * Breaks up `*\/` so text cannot end the doc comment it is placed in.
+ */
+function docText(text: string): string {
+  return text.replace(/\*\//g, "* /");
+}
+
+/**
+ * Renders a doc comment for a field (type plus description).
+ */
+function fieldDoc(field: FieldSchema): string {
+  const lines = [`${field.type}${READ_ONLY_FIELD_TYPES.has(field.type) ? " (read-only)" : ""}`];
+  if (field.description) lines.push(...field.description.split("\n"));
+  return lines.length === 1
+    ? `  /** ${docText(lines[0])} */\n`
+    : `  /**\n${lines.map((l) => `   * ${docText(l)}`).join("\n")}\n   */\n`;
+}
+
+/**
+ * Generates a module with field types for the given tables.
+ *
+ * Every field is optional because Airtable omits empty fields from records.
+ * Computed fields are marked readonly.
+ *
+ * @param tables - Table schemas from describeTable
+ * @param options - Whether to emit Zod schemas too
+ * @returns TypeScript source
+ *
+ * @example
+ * const source = generateTypes([await client.describeTable("Products")], { zod: true });
+ */
+export function generateTypes(tables: TableSchema[], options?: CodegenOptions): string {
+  const parts: string[] = [HEADER];
+  if (options?.zod) parts.push(`import { z } from "zod";\n`);
+  parts.push(SHARED_TYPES);
+  if (options?.zod) parts.push(SHARED_ZOD);
+
+  const names = new Set<string>();
+  const tableEntries: string[] = [];
+
+  for (const table of tables) {
+    // Disambiguate tables whose names collapse to the same identifier,
+    // including with another table's own name ("Products!" vs "Products2")
+    const base = typeName(table.name);
+    let name = base;
+    for (let n = 2; names.has(name); n++) name = `${base}${n}`;
+    names.add(name);
+
+    const props = table.fields.map((field) => {
+      const readonly = READ_ONLY_FIELD_TYPES.has(field.type) ? "readonly " : "";
+      return `${fieldDoc(field)}  ${readonly}${JSON.stringify(field.name)}?: ${tsType(field)};`;
+    });
+    parts.push(`/** Fields of "${docText(table.name)}" (${table.id}) */\nexport interface ${name}Fields {\n${props.join("\n")}\n}\n`);
+
+    if (options?.zod) {
+      const shape = table.fields.map((field) => `  ${JSON.stringify(field.name)}: ${zodType(field)}.optional(),`);
+      parts.push(`export const ${name}FieldsSchema = z.object({\n${shape.join("\n")}\n});\n`);
+    }
+
+    tableEntries.push(`  ${name}: { id: ${JSON.stringify(table.id)}, name: ${JSON.stringify(table.name)} },`);
+  }
+
+  parts.push(`export const Tables = {\n${tableEntries.join("\n")}\n} as const;\n`);
+  return parts.join("\n");
+}
@@ -0,0 +1,83 @@
+/**
+ * Record Comments
+ *
+ * Shapes of Airtable record comments and @-mention rendering. Comment text
+ * stores mentions as `@[usrXXXXXXXXXXXXXX]`; the `mentioned` map on each
+ * comment carries the display names needed to render them.
+ */
+
+export interface CommentAuthor {
+  id: string;
+  email?: string;
+  name?: string;
+}
+
+export interface CommentMention {
+  type: "user" | "userGroup";
+  id: string;
+  displayName?: string;
+  email?: string;
+  name?: string;
+}
+
+export interface RecordComment {
+  id: string;
+  author: CommentAuthor;
+  /** Raw text, with mentions as @[usr…] */
+  text: string;
+  /** Text with mentions replaced by @Display Name */
+  renderedText?: string;
+  createdTime: string;
+  lastUpdatedTime?: string | null;
+  mentioned?: Record<string, CommentMention>;
+}
+
+export interface CommentPage {
+  comments: RecordComment[];
+  /** Cursor for the next page; absent on the last page */
+  offset?: string;
+}
+
+const MENTION_PATTERN = /@\[((?:usr|ugp)[A-Za-z0-9]+)\]/g;
+
+/**
+ * Replaces `@[usrXXX]` tokens with `@Display Name` (falling back to the email,
+ * then the raw ID).
+ *
+ * @example
+ * renderMentions("Over to @[usrA1]", { usrA1: { type: "user", id: "usrA1", displayName: "Sam" } });
+ * // "Over to @Sam"
+ */
+export function renderMentions(text: string, mentioned?: Record<string, CommentMention>): string {
+  return text.replace(MENTION_PATTERN, (token, id: string) => {
+    const mention = mentioned?.[id];
+    const label = mention?.displayName || mention?.name || mention?.email;
+    return label ? `@${label}` : token;
+  });
+}
+
+/**
+ * Normalises a comment payload (REST or MCP) and adds `renderedText`.
+ */
+export function toRecordComment(raw: any): RecordComment {
+  const comment: RecordComment = {
+    id: raw.id,
+    author: raw.author || {},
+    text: raw.text ?? "",
+    createdTime: raw.createdTime,
+    lastUpdatedTime: raw.lastUpdatedTime ?? null,
+    ...(raw.mentioned ? { mentioned: raw.mentioned } : {}),
+  };
+  comment.renderedText = renderMentions(comment.text, comment.mentioned);
+  return comment;
+}
+
+/**
+ * Normalises a list response into a CommentPage.
+ */
+export function toCommentPage(raw: any): CommentPage {
+  const list = Array.isArray(raw) ? raw : raw?.comments || [];
+  const page: CommentPage = { comments: list.map(toRecordComment) };
+  if (raw?.offset) page.offset = raw.offset;
+  return page;
+}
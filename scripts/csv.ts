@@ -0,0 +1,85 @@
+/**
+ * CSV Helpers
+ *
+ * Minimal RFC 4180 reader and writer: quoted fields, escaped quotes ("")
+ * and embedded newlines. Handles a leading BOM and CRLF line endings.
+ */
+
+/**
+ * Parses CSV text into rows of cells.
+ *
+ * @example
+ * parseCsv('a,b\n"x, y",z'); // [["a", "b"], ["x, y", "z"]]
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Drop blank lines
+  return rows.filter((r) => r.length > 1 || r[0] !== "");
+}
+
+/**
+ * Parses CSV text with a header row into objects keyed by column name.
+ */
+export function parseCsvObjects(text: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  return rows.map((row) => {
+    const obj: Record<string, string> = {};
+    header.forEach((column, i) => {
+      obj[column.trim()] = row[i] ?? "";
+    });
+    return obj;
+  });
+}
+
+/**
+ * Quotes a cell if it contains a comma, quote or newline.
+ */
+export function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Renders one CSV line (with trailing newline).
+ */
+export function toCsvRow(cells: string[]): string {
+  return cells.map(escapeCsvCell).join(",") + "\n";
+}
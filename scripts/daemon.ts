@@ -0,0 +1,376 @@
+/**
+ * Daemon
+ *
+ * A long-lived local process that keeps one MCP server connection (and the
+ * table ID map) open across CLI invocations, so a command costs a socket
+ * round trip instead of an MCP server spawn. The daemon listens on a Unix
+ * socket in the data directory and exits after a period without requests.
+ *
+ * Protocol: newline-delimited JSON. Each request is
+ * `{ id, method, params }` and is answered by `{ id, result }` or
+ * `{ id, error }`, where `error` is an AirtableError's toJSON() form.
+ * Responses may arrive out of order.
+ *
+ * Clients (AirtableMCPClient) probe the socket on first use and fall back
+ * to spawning their own MCP server when no daemon answers.
+ */
+
+import { createServer, createConnection, type Server, type Socket } from "net";
+import { spawn } from "child_process";
+import { chmodSync, closeSync, existsSync, mkdirSync, openSync, unlinkSync } from "fs";
+import { dirname } from "path";
+import type { AirtableMCPClient } from "./mcp-client.js";
+import { AirtableError, MCPConnectionError, errorFromJSON, toAirtableError } from "./errors.js";
+
+/** Minutes without requests before the daemon exits. */
+export const DEFAULT_DAEMON_IDLE_MINUTES = 15;
+
+/** How long `startDaemon` waits for the new process to answer. */
+const START_TIMEOUT_MS = 10_000;
+
+/** How long a client waits to reach the socket before using direct mode. */
+const PROBE_TIMEOUT_MS = 500;
+
+/**
+ * How long a client waits for an answer before giving up on the daemon.
+ * Generous, since a call may sit out the daemon's own throttling and retries.
+ */
+const REQUEST_TIMEOUT_MS = 120_000;
+
+export type DaemonMethod = "ping" | "callTool" | "listTools" | "resolveTableId" | "clearTableIds" | "shutdown";
+
+interface DaemonRequest {
+  id: number;
+  method: DaemonMethod;
+  params?: any;
+}
+
+interface DaemonResponse {
+  id: number;
+  result?: any;
+  error?: ReturnType<AirtableError["toJSON"]>;
+}
+
+export interface DaemonStatus {
+  running: boolean;
+  socket: string;
+  pid?: number;
+  startedAt?: string;
+  uptimeSeconds?: number;
+  /** Requests served since start */
+  requests?: number;
+  lastRequestAt?: string;
+  idleMinutes?: number;
+}
+
+export interface DaemonOptions {
+  socketPath: string;
+  /** Minutes without requests before exiting (default: 15) */
+  idleMinutes?: number;
+}
+
+/**
+ * Splits a socket's data into newline-delimited JSON messages.
+ */
+function onMessages(socket: Socket, handle: (message: any) => void): void {
+  let buffer = "";
+  socket.setEncoding("utf-8");
+  socket.on("data", (data: string) => {
+    buffer += data;
+    let newline;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+      if (!line.trim()) continue;
+      let message;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        continue; // Not a protocol message
+      }
+      handle(message);
+    }
+  });
+}
+
+// ============================================
+// CLIENT SIDE
+// ============================================
+
+/**
+ * A CLI process's connection to a running daemon.
+ *
+ * The socket is unref'd while no request is pending, so an idle connection
+ * never keeps the CLI process alive. `closed` turns true once the daemon is
+ * gone (or stopped answering), which callers use to fall back to direct mode.
+ */
+export class DaemonConnection {
+  private nextId = 1;
+  private pending: Map<
+    number,
+    { resolve: (value: any) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }
+  > = new Map();
+  closed = false;
+
+  private constructor(private socket: Socket) {
+    onMessages(socket, (response: DaemonResponse) => {
+      const request = this.pending.get(response.id);
+      if (!request) return;
+      clearTimeout(request.timer);
+      this.pending.delete(response.id);
+      if (!this.pending.size) this.socket.unref();
+      if (response.error) request.reject(errorFromJSON(response.error));
+      else request.resolve(response.result);
+    });
+    socket.on("close", () => {
+      this.closed = true;
+      for (const request of this.pending.values()) {
+        clearTimeout(request.timer);
+        request.reject(new MCPConnectionError("Connection to the daemon closed mid-request"));
+      }
+      this.pending.clear();
+    });
+    socket.on("error", () => {
+      // Surfaced to pending requests by the close handler
+    });
+    socket.unref();
+  }
+
+  /**
+   * Connects to the daemon, or returns null when none is listening (no
+   * socket file, a stale socket left by a crashed daemon, or no answer).
+   */
+  static open(socketPath: string): Promise<DaemonConnection | null> {
+    if (!existsSync(socketPath)) return Promise.resolve(null);
+    return new Promise((resolve) => {
+      const socket = createConnection(socketPath);
+      const timer = setTimeout(() => {
+        socket.destroy();
+        resolve(null);
+      }, PROBE_TIMEOUT_MS);
+      socket.once("connect", () => {
+        clearTimeout(timer);
+        resolve(new DaemonConnection(socket));
+      });
+      socket.once("error", () => {
+        clearTimeout(timer);
+        resolve(null);
+      });
+    });
+  }
+
+  /**
+   * Sends a request and waits for its response.
+   *
+   * @throws {AirtableError} The daemon-side failure, with its original type
+   * @throws {MCPConnectionError} If the daemon goes away or does not answer
+   *   in time (the connection is then closed)
+   */
+  request(method: DaemonMethod, params?: any): Promise<any> {
+    if (this.closed) {
+      return Promise.reject(new MCPConnectionError("Daemon connection is closed"));
+    }
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // A hung daemon is not used again
+        this.pending.delete(id);
+        this.closed = true;
+        this.socket.destroy();
+        reject(new MCPConnectionError(`Daemon did not answer ${method} within ${REQUEST_TIMEOUT_MS / 1000}s`));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(id, { resolve, reject, timer });
+      this.socket.ref();
+      this.socket.write(JSON.stringify({ id, method, params } satisfies DaemonRequest) + "\n");
+    });
+  }
+
+  close(): void {
+    this.closed = true;
+    this.socket.end();
+  }
+}
+
+// ============================================
+// DAEMON SIDE
+// ============================================
+
+/**
+ * Serves requests on the socket using `client` in direct mode. Resolves once
+ * the daemon stops (idle timeout or a `shutdown` request).
+ *
+ * @param client - Client that owns the MCP connection
+ * @param options - Socket path and idle timeout
+ * @throws {MCPConnectionError} If another daemon is already listening
+ */
+export async function serveDaemon(client: AirtableMCPClient, options: DaemonOptions): Promise<void> {
+  const { socketPath } = options;
+  const idleMs = (options.idleMinutes ?? DEFAULT_DAEMON_IDLE_MINUTES) * 60_000;
+
+  const existing = await DaemonConnection.open(socketPath);
+  if (existing) {
+    existing.close();
+    throw new MCPConnectionError(`A daemon is already listening on ${socketPath}`);
+  }
+  if (existsSync(socketPath)) unlinkSync(socketPath); // stale socket from a crashed daemon
+  mkdirSync(dirname(socketPath), { recursive: true });
+
+  client.useDirectConnection();
+  const startedAt = new Date();
+  let requests = 0;
+  let active = 0;
+  let lastRequestAt: Date | undefined;
+  let idleTimer: NodeJS.Timeout | undefined;
+  let server: Server;
+
+  const status = (): DaemonStatus => ({
+    running: true,
+    socket: socketPath,
+    pid: process.pid,
+    startedAt: startedAt.toISOString(),
+    uptimeSeconds: Math.round((Date.now() - startedAt.getTime()) / 1000),
+    requests,
+    ...(lastRequestAt ? { lastRequestAt: lastRequestAt.toISOString() } : {}),
+    idleMinutes: idleMs / 60_000,
+  });
+
+  const stopped = new Promise<void>((resolve, reject) => {
+    let stopping = false;
+    const stop = () => {
+      if (stopping) return;
+      stopping = true;
+      clearTimeout(idleTimer);
+      server.close(() => resolve());
+      // Let connected CLI processes see the close instead of waiting
+      for (const socket of sockets) socket.end();
+      setTimeout(() => sockets.forEach((socket) => socket.destroy()), 1000).unref();
+    };
+    const resetIdle = () => {
+      clearTimeout(idleTimer);
+      if (active === 0 && !stopping) idleTimer = setTimeout(stop, idleMs);
+    };
+
+    const dispatch = async (request: DaemonRequest): Promise<any> => {
+      const params = request.params || {};
+      switch (request.method) {
+        case "ping":
+          return status();
+        case "callTool":
+          return client.callTool(params.name, params.args || {});
+        case "listTools":
+          return client.listTools();
+        case "resolveTableId":
+          return client.resolveTableId(params.tableName, params.baseId);
+        case "clearTableIds":
+          client.clearTableIdCache(params.baseId);
+          return null;
+        case "shutdown":
+          setImmediate(stop);
+          return status();
+        default:
+          throw new AirtableError(`Unknown daemon method "${request.method}"`, { code: "INVALID_REQUEST", status: 400 });
+      }
+    };
+
+    const sockets = new Set<Socket>();
+    server = createServer((socket) => {
+      sockets.add(socket);
+      socket.on("close", () => sockets.delete(socket));
+      socket.on("error", () => {});
+      onMessages(socket, async (request: DaemonRequest) => {
+        active++;
+        requests++;
+        lastRequestAt = new Date();
+        clearTimeout(idleTimer);
+        let response: DaemonResponse;
+        try {
+          response = { id: request.id, result: await dispatch(request) };
+        } catch (error) {
+          response = { id: request.id, error: toAirtableError(error).toJSON() };
+        }
+        active--;
+        resetIdle();
+        if (!socket.destroyed) socket.write(JSON.stringify(response) + "\n");
+      });
+    });
+
+    server.on("error", reject);
+    process.once("SIGTERM", stop);
+    process.once("SIGINT", stop);
+    server.listen(socketPath, () => {
+      // The socket gives full API access with the daemon's key
+      chmodSync(socketPath, 0o600);
+      resetIdle();
+    });
+  });
+
+  try {
+    await stopped;
+  } finally {
+    await client.disconnect().catch(() => {});
+    if (existsSync(socketPath)) unlinkSync(socketPath);
+  }
+}
+
+/**
+ * Starts a daemon in the background and waits until it answers.
+ *
+ * @param socketPath - Socket the daemon will listen on
+ * @param command - Arguments for the current Node binary that run the daemon
+ *   in the foreground (e.g. the CLI script plus `daemon run`)
+ * @param logFile - File receiving the daemon's stdout/stderr
+ * @returns The running daemon's status
+ * @throws {MCPConnectionError} If the daemon does not come up in time
+ */
+export async function startDaemon(socketPath: string, command: string[], logFile: string): Promise<DaemonStatus> {
+  const running = await daemonStatus(socketPath);
+  if (running.running) return running;
+
+  mkdirSync(dirname(logFile), { recursive: true });
+  const log = openSync(logFile, "a");
+  const child = spawn(process.execPath, [...process.execArgv, ...command], {
+    detached: true,
+    stdio: ["ignore", log, log],
+    env: process.env,
+  });
+  child.unref();
+  closeSync(log);
+
+  const deadline = Date.now() + START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const status = await daemonStatus(socketPath);
+    if (status.running) return status;
+    if (child.exitCode !== null) break;
+  }
+  throw new MCPConnectionError(`Daemon did not start; see ${logFile}`);
+}
+
+/**
+ * Asks a running daemon to stop.
+ *
+ * @returns The daemon's final status, or `running: false` if none was running
+ */
+export async function stopDaemon(socketPath: string): Promise<DaemonStatus> {
+  const connection = await DaemonConnection.open(socketPath);
+  if (!connection) return { running: false, socket: socketPath };
+  try {
+    const status: DaemonStatus = await connection.request("shutdown");
+    return { ...status, running: false };
+  } finally {
+    connection.close();
+  }
+}
+
+/**
+ * Status of the daemon on `socketPath` (`running: false` if none answers).
+ */
+export async function daemonStatus(socketPath: string): Promise<DaemonStatus> {
+  const connection = await DaemonConnection.open(socketPath);
+  if (!connection) return { running: false, socket: socketPath };
+  try {
+    return await connection.request("ping");
+  } finally {
+    connection.close();
+  }
+}
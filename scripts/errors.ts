@@ -0,0 +1,334 @@
+/**
+ * Airtable Errors
+ *
+ * Structured error types for Airtable and MCP failures. Each error carries a
+ * stable code, an HTTP-like status, the base/table it concerns and whether
+ * retrying can help. parseMcpError turns the text payload of a failed MCP
+ * tool call into the matching subclass.
+ */
+
+export type AirtableErrorCode =
+  | "NOT_FOUND"
+  | "TABLE_NOT_FOUND"
+  | "INVALID_FIELD"
+  | "INVALID_VALUE"
+  | "INVALID_REQUEST"
+  | "AUTHENTICATION_FAILED"
+  | "PERMISSION_DENIED"
+  | "RATE_LIMITED"
+  | "SERVER_ERROR"
+  | "MCP_CONNECTION"
+  | "CONFIG"
+  | "UNKNOWN";
+
+export interface ErrorContext {
+  baseId?: string;
+  tableId?: string;
+  tool?: string;
+}
+
+/** Process exit code per error code, for scripts that branch on failures. */
+export const EXIT_CODES: Record<AirtableErrorCode, number> = {
+  UNKNOWN: 1,
+  INVALID_REQUEST: 2,
+  INVALID_FIELD: 2,
+  INVALID_VALUE: 2,
+  NOT_FOUND: 3,
+  TABLE_NOT_FOUND: 3,
+  AUTHENTICATION_FAILED: 4,
+  PERMISSION_DENIED: 4,
+  RATE_LIMITED: 5,
+  SERVER_ERROR: 6,
+  MCP_CONNECTION: 7,
+  CONFIG: 8,
+};
+
+export class AirtableError extends Error {
+  readonly code: AirtableErrorCode;
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly context: ErrorContext;
+  /** Airtable's own error type (e.g. "UNKNOWN_FIELD_NAME"), when known */
+  readonly airtableType?: string;
+  /** Structured detail, e.g. per-field validation issues */
+  readonly details?: unknown;
+
+  constructor(
+    message: string,
+    options: {
+      code: AirtableErrorCode;
+      status: number;
+      retryable?: boolean;
+      context?: ErrorContext;
+      airtableType?: string;
+      details?: unknown;
+    }
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.code = options.code;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.context = options.context || {};
+    this.airtableType = options.airtableType;
+    this.details = options.details;
+  }
+
+  get exitCode(): number {
+    return EXIT_CODES[this.code];
+  }
+
+  toJSON() {
+    return {
+      error: true as const,
+      code: this.code,
+      status: this.status,
+      message: this.message,
+      retryable: this.retryable,
+      ...(this.airtableType ? { airtableType: this.airtableType } : {}),
+      context: this.context,
+      ...(this.details !== undefined ? { details: this.details } : {}),
+    };
+  }
+}
+
+type SubclassOptions = { context?: ErrorContext; airtableType?: string; status?: number; details?: unknown };
+type ErrorClass = new (message: string, options?: SubclassOptions) => AirtableError;
+
+export class NotFoundError extends AirtableError {
+  constructor(message: string, options?: SubclassOptions) {
+    super(message, { code: "NOT_FOUND", status: options?.status ?? 404, ...options });
+  }
+}
+
+export class TableNotFoundError extends AirtableError {
+  constructor(message: string, options?: SubclassOptions) {
+    super(message, { code: "TABLE_NOT_FOUND", status: options?.status ?? 404, ...options });
+  }
+}
+
+export class InvalidFieldError extends AirtableError {
+  constructor(message: string, options?: SubclassOptions) {
+    super(message, { code: "INVALID_FIELD", status: options?.status ?? 422, ...options });
+  }
+}
+
+export class InvalidValueError extends AirtableError {
+  constructor(message: string, options?: SubclassOptions) {
+    super(message, { code: "INVALID_VALUE", status: options?.status ?? 422, ...options });
+  }
+}
+
+export class ValidationError extends AirtableError {
+  constructor(message: string, options?: SubclassOptions) {
+    super(message, { code: "INVALID_REQUEST", status: options?.status ?? 400, ...options });
+  }
+}
+
+export class AuthenticationError extends AirtableError {
+  constructor(message: string, options?: SubclassOptions) {
+    super(message, { code: "AUTHENTICATION_FAILED", status: options?.status ?? 401, ...options });
+  }
+}
+
+export class PermissionDeniedError extends AirtableError {
+  constructor(message: string, options?: SubclassOptions) {
+    super(message, { code: "PERMISSION_DENIED", status: options?.status ?? 403, ...options });
+  }
+}
+
+export class RateLimitError extends AirtableError {
+  constructor(message: string, options?: SubclassOptions) {
+    super(message, { code: "RATE_LIMITED", status: 429, retryable: true, ...options });
+  }
+}
+
+export class ServerError extends AirtableError {
+  constructor(message: string, options?: SubclassOptions) {
+    super(message, { code: "SERVER_ERROR", status: options?.status ?? 503, retryable: true, ...options });
+  }
+}
+
+/** The MCP server failed to start, crashed, or dropped the connection. */
+export class MCPConnectionError extends AirtableError {
+  constructor(message: string, options?: SubclassOptions) {
+    super(message, { code: "MCP_CONNECTION", status: 503, retryable: true, ...options });
+  }
+}
+
+export class ConfigError extends AirtableError {
+  constructor(message: string, options?: SubclassOptions) {
+    super(message, { code: "CONFIG", status: 500, ...options });
+  }
+}
+
+/** Airtable REST error types → error class. */
+const AIRTABLE_TYPES: Record<string, ErrorClass> = {
+  NOT_FOUND: NotFoundError,
+  MODEL_ID_NOT_FOUND: NotFoundError,
+  ROW_DOES_NOT_EXIST: NotFoundError,
+  TABLE_NOT_FOUND: TableNotFoundError,
+  UNKNOWN_FIELD_NAME: InvalidFieldError,
+  INVALID_VALUE_FOR_COLUMN: InvalidValueError,
+  INVALID_MULTIPLE_CHOICE_OPTIONS: InvalidValueError,
+  CANNOT_UPDATE_COMPUTED_FIELD: InvalidFieldError,
+  INVALID_FILTER_BY_FORMULA: ValidationError,
+  INVALID_REQUEST_UNKNOWN: ValidationError,
+  INVALID_REQUEST_MISSING_FIELDS: ValidationError,
+  INVALID_RECORDS: ValidationError,
+  AUTHENTICATION_REQUIRED: AuthenticationError,
+  INVALID_PERMISSIONS: PermissionDeniedError,
+  INVALID_PERMISSIONS_OR_MODEL_NOT_FOUND: PermissionDeniedError,
+  RATE_LIMIT_REACHED: RateLimitError,
+  SERVER_ERROR: ServerError,
+  SERVICE_UNAVAILABLE: ServerError,
+};
+
+/** HTTP status → error class, for payloads without an Airtable error type. */
+const STATUS_CLASSES: Record<number, ErrorClass> = {
+  400: ValidationError,
+  401: AuthenticationError,
+  403: PermissionDeniedError,
+  404: NotFoundError,
+  422: InvalidValueError,
+  429: RateLimitError,
+  500: ServerError,
+  502: ServerError,
+  503: ServerError,
+  504: ServerError,
+};
+
+/**
+ * An HTTP status stated as one in error text ("status 422", "HTTP/1.1 503",
+ * "429 Too Many Requests"). Bare three-digit numbers are not statuses.
+ */
+const STATUS_TEXT = new RegExp(
+  [
+    String.raw`\b(?:status(?:\s*code)?|HTTP(?:\/[\d.]+)?)\s*[:=]?\s*([45]\d\d)\b`,
+    String.raw`\b([45]\d\d)\s+(?:Bad Request|Unauthorized|Forbidden|Not Found|Unprocessable Entity|` +
+      String.raw`Too Many Requests|Internal Server Error|Bad Gateway|Service Unavailable|Gateway Timeout)\b`,
+  ].join("|"),
+  "i"
+);
+
+/** Fallback message patterns, checked in order. */
+const MESSAGE_PATTERNS: Array<[RegExp, ErrorClass]> = [
+  [/rate.?limit|too many requests/i, RateLimitError],
+  [/internal server error|bad gateway|service unavailable|gateway timeout/i, ServerError],
+  [/ETIMEDOUT|ECONNRESET|ECONNREFUSED|EPIPE|socket hang up|connection closed|timed? ?out/i, MCPConnectionError],
+  [/unauthori[sz]ed|authentication (failed|required)|invalid api key/i, AuthenticationError],
+  [/forbidden|permission denied|insufficient permissions/i, PermissionDeniedError],
+  [/unknown field|field .* (does not exist|not found)/i, InvalidFieldError],
+  [/table .*not found/i, TableNotFoundError],
+  [/not found|does not exist/i, NotFoundError],
+  [/invalid value|cannot accept/i, InvalidValueError],
+  [/bad request|invalid (request|filter|formula|parameter|argument)s?\b/i, ValidationError],
+];
+
+/** An HTTP error status, if `value` is one. */
+function httpStatus(value: unknown): number | undefined {
+  const status = Number(value);
+  return Number.isInteger(status) && status >= 400 && status < 600 ? status : undefined;
+}
+
+/**
+ * Extracts an Airtable `{ error: { type, message } }` object (and any status
+ * field beside it) embedded in text.
+ */
+function extractAirtableError(text: string): { type?: string; message?: string; status?: number } | undefined {
+  const start = text.indexOf("{");
+  if (start === -1) return undefined;
+  try {
+    const parsed = JSON.parse(text.slice(start, text.lastIndexOf("}") + 1));
+    const error = parsed?.error ?? parsed;
+    const status = httpStatus(parsed?.statusCode ?? parsed?.status ?? error?.statusCode ?? error?.status);
+    if (typeof error === "string") return { type: error, status };
+    if (error && typeof error === "object") return { type: error.type, message: error.message, status };
+  } catch {
+    // Not JSON; fall through to pattern matching
+  }
+  return undefined;
+}
+
+/**
+ * Parses a failed MCP tool payload into a typed AirtableError.
+ *
+ * Structured information wins: Airtable's error type when the payload embeds
+ * one, then the HTTP status (given by the caller, a status field in the
+ * payload, or one stated as a status in the text), and only then message
+ * patterns. Anything unrecognised is a non-retryable UNKNOWN error.
+ *
+ * @param text - Error text from the tool result or a thrown transport error
+ * @param context - Base/table/tool the call concerned
+ * @param status - HTTP status, when the caller has it (REST calls)
+ * @returns The most specific matching AirtableError
+ *
+ * @example
+ * parseMcpError('Airtable API Error: {"error":{"type":"UNKNOWN_FIELD_NAME","message":"Unknown field name: \\"Stauts\\""}}');
+ * // InvalidFieldError { code: "INVALID_FIELD", status: 422 }
+ */
+export function parseMcpError(text: string, context?: ErrorContext, status?: number): AirtableError {
+  const embedded = extractAirtableError(text);
+  const statusMatch = text.match(STATUS_TEXT);
+  status = status ?? embedded?.status ?? httpStatus(statusMatch?.[1] ?? statusMatch?.[2]);
+  const message = embedded?.message || text;
+  const options = { context, airtableType: embedded?.type, ...(status ? { status } : {}) };
+
+  const byType = embedded?.type ? AIRTABLE_TYPES[embedded.type] : undefined;
+  if (byType) return new byType(message, options);
+
+  const byStatus = status ? STATUS_CLASSES[status] ?? (status >= 500 ? ServerError : undefined) : undefined;
+  if (byStatus) return new byStatus(message, options);
+
+  for (const [pattern, PatternClass] of MESSAGE_PATTERNS) {
+    if (pattern.test(text)) return new PatternClass(message, options);
+  }
+
+  return new AirtableError(message, {
+    code: "UNKNOWN",
+    status: status ?? 500,
+    retryable: false,
+    context,
+    airtableType: embedded?.type,
+  });
+}
+
+/**
+ * Converts any thrown value into an AirtableError (pass-through if it is one).
+ */
+export function toAirtableError(error: unknown, context?: ErrorContext): AirtableError {
+  if (error instanceof AirtableError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return parseMcpError(message, context);
+}
+
+/** Error code → class, for rebuilding errors serialized with toJSON(). */
+const CODE_CLASSES: Partial<Record<AirtableErrorCode, ErrorClass>> = {
+  NOT_FOUND: NotFoundError,
+  TABLE_NOT_FOUND: TableNotFoundError,
+  INVALID_FIELD: InvalidFieldError,
+  INVALID_VALUE: InvalidValueError,
+  INVALID_REQUEST: ValidationError,
+  AUTHENTICATION_FAILED: AuthenticationError,
+  PERMISSION_DENIED: PermissionDeniedError,
+  RATE_LIMITED: RateLimitError,
+  SERVER_ERROR: ServerError,
+  MCP_CONNECTION: MCPConnectionError,
+  CONFIG: ConfigError,
+};
+
+/**
+ * Rebuilds an AirtableError from its toJSON() form (e.g. received from the
+ * daemon), keeping the subclass so `instanceof` checks still work.
+ */
+export function errorFromJSON(json: ReturnType<AirtableError["toJSON"]>): AirtableError {
+  const options = {
+    context: json.context,
+    status: json.status,
+    airtableType: json.airtableType,
+    details: json.details,
+  };
+  const ErrorClass = CODE_CLASSES[json.code];
+  if (ErrorClass) return new ErrorClass(json.message, options);
+  return new AirtableError(json.message, { ...options, code: json.code, retryable: json.retryable });
+}
@@ -0,0 +1,154 @@
+/**
+ * Linked-Record Expansion
+ *
+ * Replaces linked-record ID arrays with the linked records themselves, e.g.
+ * `--expand "Order,Order.Customer"` on a product inlines its orders and each
+ * order's customer. Link targets come from describeTable; linked records are
+ * fetched in batches per table through the client's per-record cache.
+ */
+
+import type { AirtableMCPClient, AirtableRecord } from "./mcp-client.js";
+import { ValidationError } from "./errors.js";
+import { findField, type TableSchema } from "./schema.js";
+
+/** Deepest expansion allowed unless the caller says otherwise. */
+export const DEFAULT_EXPAND_DEPTH = 3;
+
+/**
+ * Field name → expansions to apply inside the linked records.
+ * The key "*" stands for every linked-record field.
+ */
+export type ExpandTree = Map<string, ExpandTree>;
+
+export interface ExpandOptions {
+  /**
+   * Dot paths of link fields to inline, e.g. ["Order", "Order.Customer"].
+   * "*" matches every link field at that level ("*.*" for two levels).
+   */
+  expand?: string | string[];
+  /** Ignore path segments deeper than this (default: 3) */
+  expandDepth?: number;
+}
+
+/**
+ * Parses expand paths into a tree, dropping levels beyond `maxDepth`.
+ *
+ * @example
+ * parseExpand("Order,Order.Customer");
+ * // Map { "Order" => Map { "Customer" => Map {} } }
+ */
+export function parseExpand(spec: string | string[], maxDepth = DEFAULT_EXPAND_DEPTH): ExpandTree {
+  const paths = (Array.isArray(spec) ? spec : spec.split(","))
+    .map((p) => p.trim())
+    .filter(Boolean);
+  const root: ExpandTree = new Map();
+  for (const path of paths) {
+    let node = root;
+    for (const segment of path.split(".").slice(0, maxDepth)) {
+      const name = segment.trim();
+      if (!node.has(name)) node.set(name, new Map());
+      node = node.get(name)!;
+    }
+  }
+  return root;
+}
+
+function mergeTrees(a: ExpandTree | undefined, b: ExpandTree | undefined): ExpandTree {
+  const merged: ExpandTree = new Map(a || []);
+  for (const [name, children] of b || []) {
+    merged.set(name, mergeTrees(merged.get(name), children));
+  }
+  return merged;
+}
+
+/**
+ * Works out which link fields to expand at one level and what to expand
+ * inside each, resolving "*" against the table's link fields.
+ */
+function plan(schema: TableSchema, tree: ExpandTree): Array<{ name: string; tableId: string; children: ExpandTree }> {
+  const linkFields = schema.fields.filter((f) => f.type === "multipleRecordLinks");
+  const wildcard = tree.get("*");
+  const steps = new Map<string, { name: string; tableId: string; children: ExpandTree }>();
+
+  for (const [name, children] of tree) {
+    if (name === "*") continue;
+    const field = findField(schema, name);
+    if (!field) {
+      throw new ValidationError(`Cannot expand "${name}": no such field in table "${schema.name}"`, {
+        context: { tableId: schema.id },
+      });
+    }
+    if (field.type !== "multipleRecordLinks" || !field.options?.linkedTableId) {
+      throw new ValidationError(
+        `Cannot expand "${name}": it is a ${field.type} field, not a linked-record field`,
+        { context: { tableId: schema.id } }
+      );
+    }
+    steps.set(field.name, { name: field.name, tableId: field.options.linkedTableId, children });
+  }
+
+  if (wildcard) {
+    for (const field of linkFields) {
+      const existing = steps.get(field.name);
+      steps.set(field.name, {
+        name: field.name,
+        tableId: field.options!.linkedTableId!,
+        children: mergeTrees(existing?.children, wildcard),
+      });
+    }
+  }
+
+  return [...steps.values()];
+}
+
+/**
+ * Returns copies of `records` with the requested link fields inlined.
+ *
+ * Each expanded field becomes an array of linked records (`{ id, fields }`);
+ * IDs that no longer resolve are kept as `{ id }`. All records at one level
+ * share a single deduplicated fetch per linked table.
+ *
+ * @param client - Connected Airtable client
+ * @param tableName - Table the records belong to (name or ID)
+ * @param records - Records to expand (not modified)
+ * @param tree - Output of parseExpand
+ * @param baseId - Base ID (defaults to the configured base)
+ * @returns Expanded copies, in input order
+ * @throws {ValidationError} If a path names a missing or non-link field
+ */
+export async function expandRecords<T extends AirtableRecord<any>>(
+  client: AirtableMCPClient,
+  tableName: string,
+  records: T[],
+  tree: ExpandTree,
+  baseId?: string
+): Promise<T[]> {
+  if (!tree.size || !records.length) return records;
+
+  const schema: TableSchema = await client.describeTable(tableName, baseId);
+  const out = records.map((r) => ({ ...r, fields: { ...r.fields } }));
+
+  for (const step of plan(schema, tree)) {
+    const ids = new Set<string>();
+    for (const record of out) {
+      const value = record.fields[step.name];
+      if (Array.isArray(value)) value.forEach((id) => typeof id === "string" && ids.add(id));
+    }
+    if (!ids.size) continue;
+
+    const linked = await client.getRecordsById(step.tableId, [...ids], baseId);
+    const expanded = await expandRecords(client, step.tableId, linked, step.children, baseId);
+    const byId = new Map(expanded.map((r) => [r.id, r]));
+
+    for (const record of out) {
+      const value = record.fields[step.name];
+      if (Array.isArray(value)) {
+        (record.fields as Record<string, any>)[step.name] = value.map((id) =>
+          typeof id === "string" ? byId.get(id) || { id } : id
+        );
+      }
+    }
+  }
+
+  return out;
+}
@@ -0,0 +1,149 @@
+/**
+ * Record Export
+ *
+ * Pages through a table and renders records as CSV, JSONL or a plain-text
+ * table. Column order follows the describe_table schema. CSV and table
+ * output flatten Airtable's structured values (links, attachments,
+ * collaborators, lookups) into readable text; JSONL keeps them as-is.
+ */
+
+import type { AirtableMCPClient, AirtableRecord, ListRecordsOptions } from "./mcp-client.js";
+import { toCsvRow } from "./csv.js";
+import type { TableSchema } from "./schema.js";
+
+export type ExportFormat = "csv" | "jsonl" | "table";
+
+export interface ExportOptions extends Omit<ListRecordsOptions, "offset" | "bypassCache"> {
+  format: ExportFormat;
+}
+
+export interface ExportSummary {
+  format: ExportFormat;
+  records: number;
+  pages: number;
+  columns: string[];
+}
+
+/** Separator for multi-valued cells in flattened output. */
+const LIST_SEPARATOR = "; ";
+
+/** Widest a cell may be in table output before it is truncated. */
+const MAX_TABLE_CELL_WIDTH = 40;
+
+/**
+ * Flattens an Airtable cell value to text.
+ *
+ * - Arrays (links, multi-selects, lookups) join with "; "
+ * - Attachments render as their URL
+ * - Collaborators render as name, falling back to email
+ * - Buttons/barcodes render their label or text
+ */
+export function flattenValue(value: any): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) {
+    return value.map(flattenValue).filter((v) => v !== "").join(LIST_SEPARATOR);
+  }
+  if (typeof value === "object") {
+    if ("url" in value && ("filename" in value || "type" in value)) return String(value.url);
+    if ("email" in value || ("name" in value && "id" in value)) {
+      return String(value.name || value.email);
+    }
+    if ("label" in value) return String(value.label);
+    if ("text" in value) return String(value.text);
+    if ("error" in value) return `#${value.error}`;
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Orders field names by the table schema; names not in the schema go last.
+ */
+function orderColumns(schema: TableSchema, only?: string[]): string[] {
+  const names = schema.fields.map((f) => f.name);
+  if (!only?.length) return names;
+  const known = names.filter((n) => only.includes(n));
+  return [...known, ...only.filter((n) => !names.includes(n))];
+}
+
+/**
+ * Renders rows as an aligned plain-text table.
+ */
+export function renderTable(header: string[], rows: string[][]): string {
+  const clip = (cell: string) => {
+    const oneLine = cell.replace(/\s*\n\s*/g, " ");
+    return oneLine.length > MAX_TABLE_CELL_WIDTH
+      ? oneLine.slice(0, MAX_TABLE_CELL_WIDTH - 1) + "…"
+      : oneLine;
+  };
+  const body = rows.map((row) => row.map(clip));
+  const widths = header.map((h, i) => Math.max(h.length, ...body.map((row) => row[i].length)));
+  const line = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join(" | ").trimEnd();
+
+  return [
+    line(header),
+    widths.map((w) => "-".repeat(w)).join("-|-"),
+    ...body.map(line),
+  ].join("\n") + "\n";
+}
+
+/**
+ * Exports every matching record through a writer.
+ *
+ * CSV and JSONL are written page by page as records arrive; the table
+ * format is buffered so columns can be aligned.
+ *
+ * @param client - Connected Airtable client
+ * @param tableName - Table name or ID
+ * @param options - Format plus the usual list filters (filter, view, sort, fields)
+ * @param write - Receives output text in order; a returned promise is awaited
+ *   before more is written (backpressure)
+ * @returns Record/page counts and the column order used
+ *
+ * @example
+ * await exportRecords(client, "Orders", { format: "csv", view: "Finance" },
+ *   (text) => process.stdout.write(text));
+ */
+export async function exportRecords(
+  client: AirtableMCPClient,
+  tableName: string,
+  options: ExportOptions,
+  write: (text: string) => void | Promise<void>
+): Promise<ExportSummary> {
+  const { format, ...listOptions } = options;
+  const schema: TableSchema = await client.describeTable(tableName, options.baseId);
+  const columns = orderColumns(schema, options.fields);
+
+  const toRow = (record: AirtableRecord) => [
+    record.id,
+    ...columns.map((name) => flattenValue(record.fields?.[name])),
+  ];
+
+  const tableRows: string[][] = [];
+  let records = 0;
+  let pages = 0;
+
+  if (format === "csv") await write(toCsvRow(["id", ...columns]));
+
+  for await (const page of client.iterateRecords(tableName, listOptions)) {
+    pages++;
+    records += page.records.length;
+    for (const record of page.records) {
+      if (format === "jsonl") {
+        const fields: Record<string, any> = {};
+        for (const name of columns) {
+          if (record.fields?.[name] !== undefined) fields[name] = record.fields[name];
+        }
+        await write(JSON.stringify({ id: record.id, createdTime: record.createdTime, fields }) + "\n");
+      } else if (format === "csv") {
+        await write(toCsvRow(toRow(record)));
+      } else {
+        tableRows.push(toRow(record));
+      }
+    }
+  }
+
+  if (format === "table") await write(renderTable(["id", ...columns], tableRows));
+
+  return { format, records, pages, columns };
+}
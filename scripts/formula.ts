@@ -0,0 +1,422 @@
+/**
+ * Filter Formula Builder
+ *
+ * Builds Airtable filter formulas from typed conditions so field names and
+ * values are always escaped correctly:
+ *
+ *   where(field("Status").eq("In Stock")).and(field("Qty").gt(0))
+ *   // AND({Status}="In Stock",{Qty}>0)
+ *
+ * Also compiles the CLI's `--where "Status=In Stock,Qty>0"` shorthand.
+ */
+
+import { findField, NUMERIC_FIELD_TYPES, type TableSchema } from "./schema.js";
+import { InvalidFieldError, ValidationError } from "./errors.js";
+
+/** Value that can be compared against a field. Dates compare as date-times. */
+export type FormulaValue = string | number | boolean | Date;
+
+/**
+ * A compiled formula. Combine with and/or/not; pass anywhere a filter
+ * formula string is accepted.
+ */
+export class Formula {
+  constructor(private readonly text: string) {}
+
+  and(...others: Array<Formula | string>): Formula {
+    return and(this, ...others);
+  }
+
+  or(...others: Array<Formula | string>): Formula {
+    return or(this, ...others);
+  }
+
+  not(): Formula {
+    return new Formula(`NOT(${this.text})`);
+  }
+
+  toString(): string {
+    return this.text;
+  }
+
+  toJSON(): string {
+    return this.text;
+  }
+}
+
+/** A filter given either as a raw formula string or a built Formula. */
+export type FilterInput = string | Formula;
+
+/**
+ * Renders a filter input as formula text (undefined stays undefined).
+ */
+export function formulaText(filter: FilterInput | undefined): string | undefined {
+  return filter === undefined ? undefined : String(filter);
+}
+
+/**
+ * Quotes a string for use inside a formula.
+ */
+export function quote(text: string): string {
+  const escaped = text
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+  return `"${escaped}"`;
+}
+
+/**
+ * Renders a value as a formula literal.
+ *
+ * @example
+ * literal('Say "hi"'); // "Say \"hi\""
+ * literal(true);       // TRUE()
+ */
+export function literal(value: FormulaValue): string {
+  if (typeof value === "number") return String(value);
+  if (typeof value === "boolean") return value ? "TRUE()" : "FALSE()";
+  if (value instanceof Date) return `DATETIME_PARSE(${quote(value.toISOString())})`;
+  return quote(String(value));
+}
+
+/**
+ * Renders a field reference, escaping braces and backslashes in the name.
+ *
+ * @example
+ * fieldRef("Products [ManufacturerName]"); // {Products [ManufacturerName]}
+ */
+export function fieldRef(name: string): string {
+  return `{${name.replace(/\\/g, "\\\\").replace(/}/g, "\\}")}}`;
+}
+
+function combine(fn: "AND" | "OR", parts: Array<Formula | string>): Formula {
+  const texts = parts.map(String).filter(Boolean);
+  if (texts.length === 1) return new Formula(texts[0]);
+  return new Formula(`${fn}(${texts.join(",")})`);
+}
+
+/** All conditions must hold. */
+export function and(...conditions: Array<Formula | string>): Formula {
+  return combine("AND", conditions);
+}
+
+/** Any condition may hold. */
+export function or(...conditions: Array<Formula | string>): Formula {
+  return combine("OR", conditions);
+}
+
+/** Negates a condition. */
+export function not(condition: Formula | string): Formula {
+  return new Formula(`NOT(${condition})`);
+}
+
+/**
+ * Starts a filter; several conditions are combined with AND.
+ */
+export function where(...conditions: Array<Formula | string>): Formula {
+  return and(...conditions);
+}
+
+/**
+ * Wraps a hand-written formula so it can be combined with built ones.
+ */
+export function raw(formula: string): Formula {
+  return new Formula(formula);
+}
+
+export type DateUnit = "day" | "week" | "month" | "year" | "hour" | "minute";
+
+/** Separator used when flattening linked/multi-value fields with ARRAYJOIN. */
+const ARRAY_SEPARATOR = "\u001f";
+
+/**
+ * Conditions on one field. Created with field(name).
+ */
+export class FieldCondition {
+  readonly ref: string;
+
+  constructor(readonly name: string) {
+    this.ref = fieldRef(name);
+  }
+
+  private compare(op: string, value: FormulaValue): Formula {
+    if (value instanceof Date) {
+      const target = literal(value);
+      switch (op) {
+        case "=": return new Formula(`IS_SAME(${this.ref},${target})`);
+        case "!=": return new Formula(`NOT(IS_SAME(${this.ref},${target}))`);
+        case ">": return new Formula(`IS_AFTER(${this.ref},${target})`);
+        case "<": return new Formula(`IS_BEFORE(${this.ref},${target})`);
+        case ">=": return new Formula(`OR(IS_SAME(${this.ref},${target}),IS_AFTER(${this.ref},${target}))`);
+        case "<=": return new Formula(`OR(IS_SAME(${this.ref},${target}),IS_BEFORE(${this.ref},${target}))`);
+      }
+    }
+    if (typeof value === "boolean" && (op === "=" || op === "!=")) {
+      // Unchecked checkboxes are blank, not FALSE(), so test truthiness
+      const truthy = op === "=" ? value : !value;
+      return new Formula(truthy ? this.ref : `NOT(${this.ref})`);
+    }
+    return new Formula(`${this.ref}${op}${literal(value)}`);
+  }
+
+  eq(value: FormulaValue): Formula {
+    return this.compare("=", value);
+  }
+
+  ne(value: FormulaValue): Formula {
+    return this.compare("!=", value);
+  }
+
+  gt(value: FormulaValue): Formula {
+    return this.compare(">", value);
+  }
+
+  gte(value: FormulaValue): Formula {
+    return this.compare(">=", value);
+  }
+
+  lt(value: FormulaValue): Formula {
+    return this.compare("<", value);
+  }
+
+  lte(value: FormulaValue): Formula {
+    return this.compare("<=", value);
+  }
+
+  /** Equals any of the values. */
+  in(values: FormulaValue[]): Formula {
+    return values.length ? or(...values.map((v) => this.eq(v))) : new Formula("FALSE()");
+  }
+
+  /**
+   * Field is empty. Compares as text so a number field holding 0 is not
+   * treated as blank (`{Qty}=BLANK()` is true for 0).
+   */
+  isBlank(): Formula {
+    return new Formula(`LEN(${this.ref}&"")=0`);
+  }
+
+  isNotBlank(): Formula {
+    return new Formula(`LEN(${this.ref}&"")>0`);
+  }
+
+  /**
+   * Field text contains `text`. Case-sensitive FIND by default; SEARCH on
+   * lower-cased text with `ignoreCase`.
+   */
+  contains(text: string, options?: { ignoreCase?: boolean }): Formula {
+    if (options?.ignoreCase) {
+      return new Formula(`SEARCH(${quote(text.toLowerCase())},LOWER(${this.ref}&""))>0`);
+    }
+    return new Formula(`FIND(${quote(text)},${this.ref}&"")>0`);
+  }
+
+  startsWith(text: string): Formula {
+    return new Formula(`FIND(${quote(text)},${this.ref}&"")=1`);
+  }
+
+  /**
+   * Linked record, lookup or multi-select field has an item equal to `value`
+   * (for links, the linked record's primary field value).
+   */
+  has(value: string): Formula {
+    const sep = quote(ARRAY_SEPARATOR);
+    return new Formula(
+      `FIND(${quote(ARRAY_SEPARATOR + value + ARRAY_SEPARATOR)},${sep}&ARRAYJOIN(${this.ref},${sep})&${sep})>0`
+    );
+  }
+
+  /** Has at least one of the values. */
+  hasAny(values: string[]): Formula {
+    return values.length ? or(...values.map((v) => this.has(v))) : new Formula("FALSE()");
+  }
+
+  /** Has every one of the values. */
+  hasAll(values: string[]): Formula {
+    return values.length ? and(...values.map((v) => this.has(v))) : new Formula("TRUE()");
+  }
+
+  /** Date falls in the same `unit` as `date` (default: same day). */
+  on(date: Date | string, unit: DateUnit = "day"): Formula {
+    return new Formula(`IS_SAME(${this.ref},${literal(toDate(date))},${quote(unit)})`);
+  }
+
+  before(date: Date | string): Formula {
+    return this.lt(toDate(date));
+  }
+
+  after(date: Date | string): Formula {
+    return this.gt(toDate(date));
+  }
+
+  /** Date within [from, to], inclusive. */
+  between(from: Date | string, to: Date | string): Formula {
+    return and(this.gte(toDate(from)), this.lte(toDate(to)));
+  }
+
+  /** Date within the last `count` units up to now. */
+  withinLast(count: number, unit: DateUnit = "day"): Formula {
+    return new Formula(
+      `AND(IS_AFTER(${this.ref},DATEADD(NOW(),${-Math.abs(count)},${quote(unit)})),NOT(IS_AFTER(${this.ref},NOW())))`
+    );
+  }
+}
+
+function toDate(value: Date | string): Date {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Starts a condition on a field.
+ *
+ * @example
+ * field("Status").eq("In Stock");
+ * field("Order").has("#1001");
+ * field("Delivered").after("2024-06-01");
+ */
+export function field(name: string): FieldCondition {
+  return new FieldCondition(name);
+}
+
+// ============================================
+// --where SHORTHAND
+// ============================================
+
+const WHERE_CLAUSE = /^(.+?)\s*(!=|>=|<=|=|>|<|~|@)\s*(.*)$/s;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+const DATE_FIELD_TYPES = new Set(["date", "dateTime", "createdTime", "lastModifiedTime"]);
+
+/** How a shorthand value is read for a field: by its type, or guessed when the type does not say. */
+type ValueKind = "number" | "boolean" | "date" | "text" | "guess";
+
+/**
+ * Splits on commas outside double quotes.
+ */
+function splitClauses(text: string): string[] {
+  const clauses: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\\" && quoted && i + 1 < text.length) {
+      current += ch + text[++i];
+    } else if (ch === '"') {
+      quoted = !quoted;
+      current += ch;
+    } else if (ch === "," && !quoted) {
+      clauses.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  clauses.push(current);
+  return clauses.map((c) => c.trim()).filter(Boolean);
+}
+
+function isQuoted(raw: string): boolean {
+  return raw.length >= 2 && raw.startsWith('"') && raw.endsWith('"');
+}
+
+function unquote(raw: string): string {
+  return isQuoted(raw) ? raw.slice(1, -1).replace(/\\(.)/g, "$1") : raw;
+}
+
+/**
+ * Value kind for a field type. Computed fields (formula, rollup, lookup)
+ * can return anything, so their values are guessed.
+ */
+function valueKind(type?: string): ValueKind {
+  if (!type || ["formula", "rollup", "lookup", "multipleLookupValues"].includes(type)) return "guess";
+  if (NUMERIC_FIELD_TYPES.has(type) || type === "count" || type === "autoNumber") return "number";
+  if (type === "checkbox") return "boolean";
+  if (DATE_FIELD_TYPES.has(type)) return "date";
+  return "text";
+}
+
+/**
+ * Reads a shorthand value: quoted text stays text. Otherwise the field type
+ * decides; without one, numbers that survive the round trip (not `00123`),
+ * true/false and ISO dates are recognised.
+ */
+function parseValue(raw: string, kind: ValueKind): FormulaValue {
+  if (isQuoted(raw)) return unquote(raw);
+  const numeric = /^-?\d+(\.\d+)?$/.test(raw);
+  if (kind === "number") return numeric ? Number(raw) : raw;
+  if (kind === "boolean") return raw === "true" || raw === "false" ? raw === "true" : raw;
+  if (kind === "date") return ISO_DATE.test(raw) ? toDate(raw) : raw;
+  if (kind === "text") return raw;
+  if (numeric && String(Number(raw)) === raw) return Number(raw);
+  if (raw === "true" || raw === "false") return raw === "true";
+  if (ISO_DATE.test(raw)) return toDate(raw);
+  return raw;
+}
+
+/**
+ * Compiles the `--where` shorthand into a Formula.
+ *
+ * Clauses are comma-separated and ANDed. Operators: `=`, `!=`, `>`, `>=`,
+ * `<`, `<=`, `~` (contains, case-insensitive) and `@` (linked/multi-select
+ * field has item). An empty value with `=` / `!=` tests for blank / not
+ * blank. Quote values containing commas: `Name="Smith, J"`.
+ *
+ * With the table's schema, each value is read as the field's type, so
+ * `Serial=00123` on a text field stays the text "00123".
+ *
+ * @param text - Shorthand clauses
+ * @param schema - Table the clauses refer to (optional; types are guessed without it)
+ * @throws {ValidationError} If a clause is malformed or there are none
+ * @throws {InvalidFieldError} If a field is not in the schema
+ *
+ * @example
+ * parseWhere("Status=In Stock,Qty>0");
+ * // AND({Status}="In Stock",{Qty}>0)
+ * parseWhere("Serial=00123,Qty>0", schema);
+ * // AND({Serial}="00123",{Qty}>0)
+ */
+export function parseWhere(text: string, schema?: TableSchema): Formula {
+  const conditions = splitClauses(text).map((clause) => {
+    const match = WHERE_CLAUSE.exec(clause);
+    if (!match) {
+      throw new ValidationError(`Invalid --where clause "${clause}" (expected Field<op>Value, e.g. Status=In Stock)`);
+    }
+    const [, name, op, rawValue] = match;
+    const schemaField = schema && findField(schema, name.trim());
+    if (schema && !schemaField) {
+      throw new InvalidFieldError(`Unknown field "${name.trim()}" in table "${schema.name}"`, {
+        context: { tableId: schema.id },
+      });
+    }
+    const kind = valueKind(schemaField?.type);
+    const f = field(name.trim());
+    const valueText = rawValue.trim();
+
+    if (valueText === "" && (op === "=" || op === "!=")) {
+      return op === "=" ? f.isBlank() : f.isNotBlank();
+    }
+    // A bare date matches the whole day
+    const day = /^\d{4}-\d{2}-\d{2}$/.test(valueText) && (kind === "date" || kind === "guess");
+    if (day && (op === "=" || op === "!=")) {
+      return op === "=" ? f.on(valueText) : f.on(valueText).not();
+    }
+    const value = parseValue(valueText, kind);
+    switch (op) {
+      case "=": return f.eq(value);
+      case "!=": return f.ne(value);
+      case ">": return f.gt(value);
+      case ">=": return f.gte(value);
+      case "<": return f.lt(value);
+      case "<=": return f.lte(value);
+      case "~": return f.contains(unquote(valueText), { ignoreCase: true });
+      default: return f.has(unquote(valueText));
+    }
+  });
+  if (!conditions.length) {
+    throw new ValidationError("--where is empty");
+  }
+  return where(...conditions);
+}
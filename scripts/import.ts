@@ -0,0 +1,359 @@
+/**
+ * Record Import
+ *
+ * Loads CSV or JSONL rows into a table. Columns are mapped to fields (by name
+ * or via a mapping object), values are coerced to each field's type using the
+ * describe_table schema, and valid rows are written through the client's
+ * batched create/upsert paths. Rows that fail coercion or writing are
+ * returned as rejects instead of aborting the import.
+ */
+
+import type { AirtableMCPClient } from "./mcp-client.js";
+import { parseCsvObjects } from "./csv.js";
+import {
+  type FieldSchema,
+  type TableSchema,
+  NUMERIC_FIELD_TYPES,
+  TEXT_FIELD_TYPES,
+  READ_ONLY_FIELD_TYPES,
+  findField,
+  primaryField,
+} from "./schema.js";
+
+export type ImportFormat = "csv" | "jsonl";
+
+export interface ImportOptions {
+  format: ImportFormat;
+  /** Column → field name; null skips the column. Unmapped columns map by name. */
+  mapping?: Record<string, string | null>;
+  /** Upsert on these fields instead of always creating */
+  mergeOn?: string[];
+  baseId?: string;
+  concurrency?: number;
+}
+
+export interface RejectedRow {
+  /** 1-based data row number (CSV, excluding the header) or file line (JSONL) */
+  row: number;
+  errors: string[];
+  data: Record<string, any>;
+}
+
+export interface ParsedRow {
+  /** 1-based data row number (CSV, excluding the header) or file line (JSONL) */
+  row: number;
+  data: Record<string, any>;
+  /** Why the line could not be parsed (JSONL only) */
+  error?: string;
+}
+
+export interface ImportReport {
+  total: number;
+  created: number;
+  updated: number;
+  rejected: number;
+  ignoredColumns: Array<{ column: string; reason: string }>;
+  rejects: RejectedRow[];
+}
+
+/** Lookup of primary field value → record ID, per linked table. */
+type LinkIndex = Map<string, Map<string, string>>;
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "1", "x", "checked", "on"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "0", "unchecked", "off"]);
+
+/**
+ * Parses import text into row objects. Unparseable JSONL lines come back
+ * with an `error` (and the raw line as data) so they can be rejected
+ * without aborting the import.
+ */
+export function parseRows(text: string, format: ImportFormat): ParsedRow[] {
+  if (format === "csv") return parseCsvObjects(text).map((data, i) => ({ row: i + 1, data }));
+  const rows: ParsedRow[] = [];
+  // Number lines before skipping blanks so rows report their file line
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (line.trim() === "") return;
+    let row: any;
+    try {
+      row = JSON.parse(line);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      rows.push({ row: i + 1, data: { line }, error: `Invalid JSON: ${reason}` });
+      return;
+    }
+    if (!row || typeof row !== "object" || Array.isArray(row)) {
+      rows.push({ row: i + 1, data: { line }, error: "Expected a JSON object" });
+      return;
+    }
+    // Accept exported { id, fields } records as well as flat objects
+    rows.push({ row: i + 1, data: typeof row.fields === "object" && row.fields ? row.fields : row });
+  });
+  return rows;
+}
+
+/**
+ * Infers the format from a file extension.
+ */
+export function formatFromPath(path: string): ImportFormat | undefined {
+  if (/\.csv$/i.test(path)) return "csv";
+  if (/\.(jsonl|ndjson)$/i.test(path)) return "jsonl";
+  return undefined;
+}
+
+/**
+ * Splits a list-like value ("a, b; c" or an array) into trimmed items.
+ */
+function toList(value: any): string[] {
+  const items = Array.isArray(value) ? value : String(value).split(/[,;]/);
+  return items.map((v) => String(v).trim()).filter(Boolean);
+}
+
+/**
+ * Formats a Date as YYYY-MM-DD using local calendar components.
+ */
+function localDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Coerces a raw cell value to the API representation for a field.
+ *
+ * @returns The coerced value, or undefined for a blank cell
+ * @throws {Error} If the value cannot be represented in the field's type
+ */
+export function coerceValue(field: FieldSchema, raw: any, links?: LinkIndex): any {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw === "string" && raw.trim() === "") return undefined;
+
+  if (TEXT_FIELD_TYPES.has(field.type)) {
+    return String(raw);
+  }
+
+  if (NUMERIC_FIELD_TYPES.has(field.type)) {
+    if (typeof raw === "number") return raw;
+    const text = String(raw).trim();
+    const isPercent = field.type === "percent" && text.endsWith("%");
+    let digits = text.replace(/[%\s$£€]/g, "");
+    // Commas only as thousands separators: "1,5" is ambiguous, not 15
+    if (/^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(digits)) digits = digits.replace(/,/g, "");
+    const num = digits === "" ? NaN : Number(digits);
+    if (Number.isNaN(num)) {
+      throw new Error(`"${raw}" is not a number`);
+    }
+    return isPercent ? num / 100 : num;
+  }
+
+  switch (field.type) {
+    case "checkbox": {
+      if (typeof raw === "boolean") return raw;
+      const text = String(raw).trim().toLowerCase();
+      if (TRUE_VALUES.has(text)) return true;
+      if (FALSE_VALUES.has(text)) return false;
+      throw new Error(`"${raw}" is not a checkbox value`);
+    }
+
+    case "date": {
+      const text = String(raw).trim();
+      if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+      const date = new Date(text);
+      if (Number.isNaN(date.getTime())) throw new Error(`"${raw}" is not a date`);
+      return localDate(date);
+    }
+
+    case "dateTime": {
+      const date = new Date(String(raw).trim());
+      if (Number.isNaN(date.getTime())) throw new Error(`"${raw}" is not a date/time`);
+      return date.toISOString();
+    }
+
+    case "singleSelect": {
+      return matchChoice(field, String(raw).trim());
+    }
+
+    case "multipleSelects": {
+      return toList(raw).map((v) => matchChoice(field, v));
+    }
+
+    case "multipleRecordLinks": {
+      const index = links?.get(field.options?.linkedTableId || "");
+      return toList(raw).map((v) => {
+        if (/^rec[A-Za-z0-9]{14}$/.test(v)) return v;
+        const id = index?.get(v);
+        if (!id) throw new Error(`No linked record with primary value "${v}"`);
+        return id;
+      });
+    }
+
+    case "multipleAttachments": {
+      if (Array.isArray(raw) && raw.every((a) => typeof a === "object")) return raw;
+      return toList(raw).map((url) => ({ url }));
+    }
+
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Resolves a select value to its canonical choice name (case-insensitive).
+ * Never creates new choices.
+ */
+function matchChoice(field: FieldSchema, value: string): string {
+  const choices = field.options?.choices || [];
+  const match = choices.find((c) => c.name.toLowerCase() === value.toLowerCase());
+  if (!match) {
+    throw new Error(
+      `"${value}" is not a valid option for "${field.name}" (choices: ${choices.map((c) => c.name).join(", ")})`
+    );
+  }
+  return match.name;
+}
+
+/**
+ * Builds primary-value → record ID indexes for every linked table used by
+ * the mapped fields.
+ */
+async function buildLinkIndex(
+  client: AirtableMCPClient,
+  fields: FieldSchema[],
+  baseId?: string
+): Promise<LinkIndex> {
+  const index: LinkIndex = new Map();
+  for (const field of fields) {
+    const linkedTableId = field.options?.linkedTableId;
+    if (field.type !== "multipleRecordLinks" || !linkedTableId || index.has(linkedTableId)) continue;
+
+    const linkedSchema: TableSchema = await client.describeTable(linkedTableId, baseId);
+    const primary = primaryField(linkedSchema);
+    const lookup = new Map<string, string>();
+    if (primary) {
+      const { records } = await client.listAllRecords(linkedTableId, {
+        baseId,
+        fields: [primary.name],
+      });
+      for (const record of records) {
+        const value = record.fields?.[primary.name];
+        if (value !== undefined && value !== null) lookup.set(String(value), record.id);
+      }
+    }
+    index.set(linkedTableId, lookup);
+  }
+  return index;
+}
+
+/**
+ * Imports rows into a table.
+ *
+ * @param client - Connected Airtable client
+ * @param tableName - Target table name or ID
+ * @param text - CSV or JSONL content
+ * @param options - Format, mapping, merge fields and batch settings
+ * @returns Counts, ignored columns and rejected rows
+ *
+ * @example
+ * const report = await importRecords(client, "Products", csvText, {
+ *   format: "csv",
+ *   mapping: { "Serial": "SerialNumber", "Notes": null },
+ *   mergeOn: ["SerialNumber"],
+ * });
+ */
+export async function importRecords(
+  client: AirtableMCPClient,
+  tableName: string,
+  text: string,
+  options: ImportOptions
+): Promise<ImportReport> {
+  const rows = parseRows(text, options.format);
+  const schema: TableSchema = await client.describeTable(tableName, options.baseId);
+
+  // Resolve column → field once for the whole file
+  const columns = new Set<string>();
+  for (const row of rows) {
+    if (!row.error) Object.keys(row.data).forEach((c) => columns.add(c));
+  }
+
+  const report: ImportReport = {
+    total: rows.length,
+    created: 0,
+    updated: 0,
+    rejected: 0,
+    ignoredColumns: [],
+    rejects: [],
+  };
+
+  const targets = new Map<string, FieldSchema>();
+  for (const column of columns) {
+    const mapped = options.mapping && column in options.mapping ? options.mapping[column] : column;
+    if (mapped === null) continue;
+    const field = findField(schema, mapped);
+    if (!field) {
+      report.ignoredColumns.push({ column, reason: `No field named "${mapped}"` });
+    } else if (READ_ONLY_FIELD_TYPES.has(field.type)) {
+      report.ignoredColumns.push({ column, reason: `"${field.name}" is a read-only ${field.type} field` });
+    } else {
+      targets.set(column, field);
+    }
+  }
+
+  const links = await buildLinkIndex(client, [...targets.values()], options.baseId);
+
+  // Coerce each row, collecting rejects
+  const valid: Array<{ row: number; data: Record<string, any>; fields: Record<string, any> }> = [];
+  for (const { row, data, error } of rows) {
+    if (error) {
+      report.rejects.push({ row, errors: [error], data });
+      continue;
+    }
+    const errors: string[] = [];
+    const fields: Record<string, any> = {};
+    for (const [column, field] of targets) {
+      try {
+        const value = coerceValue(field, data[column], links);
+        if (value !== undefined) fields[field.name] = value;
+      } catch (error) {
+        errors.push(`${column}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    if (errors.length) {
+      report.rejects.push({ row, errors, data });
+    } else {
+      valid.push({ row, data, fields });
+    }
+  }
+
+  if (valid.length) {
+    const batch = { concurrency: options.concurrency };
+    if (options.mergeOn?.length) {
+      const result = await client.upsertRecords(
+        tableName,
+        valid.map((v) => v.fields),
+        { ...batch, mergeOn: options.mergeOn },
+        options.baseId
+      );
+      report.created = result.created.length;
+      report.updated = result.updated.length;
+      for (const failure of result.failed) {
+        const { row, data } = valid[failure.index];
+        report.rejects.push({ row, errors: [failure.error], data });
+      }
+    } else {
+      const result = await client.createRecords(
+        tableName,
+        valid.map((v) => v.fields),
+        options.baseId,
+        batch
+      );
+      report.created = result.succeeded;
+      result.results.forEach((r, i) => {
+        if (r.ok) return;
+        const { row, data } = valid[i];
+        report.rejects.push({ row, errors: [r.error || "Create failed"], data });
+      });
+    }
+  }
+
+  report.rejects.sort((a, b) => a.row - b.row);
+  report.rejected = report.rejects.length;
+  return report;
+}
@@ -0,0 +1,336 @@
+/**
+ * Change Journal
+ *
+ * Opt-in local log of every create, update and delete made through the
+ * client, with each record's fields before and after the write. The journal
+ * answers "what did this record used to say" (a field-level timeline per
+ * record) and lets the last change be reverted.
+ *
+ * Entries are JSON lines in <dataDir>/journal.jsonl. One client call is one
+ * transaction (`txn`): every record it touched shares the ID, and undo
+ * reverts a transaction as a whole. Undo writes are journaled too, marked
+ * with `undoOf`, so repeated undos walk further back instead of redoing.
+ * A record counts as undone only when an undo write reverted it, so records
+ * an undo skipped (conflicts) can still be reverted later with `--txn`.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { randomBytes } from "crypto";
+import { dirname } from "path";
+import type { AirtableMCPClient, AirtableRecord } from "./mcp-client.js";
+import type { BatchReport } from "./batch.js";
+import { findField, READ_ONLY_FIELD_TYPES, type TableSchema } from "./schema.js";
+import { diffFields, type FieldChange } from "./watch.js";
+import { NotFoundError, ValidationError } from "./errors.js";
+
+export type JournalOp = "create" | "update" | "delete";
+
+export interface JournalEntry {
+  txn: string;
+  at: string;
+  op: JournalOp;
+  baseId: string;
+  tableId: string;
+  /** Table as the caller named it */
+  table: string;
+  recordId: string;
+  /** Fields before the write (null for creates) */
+  before: Record<string, any> | null;
+  /** Fields after the write (null for deletes) */
+  after: Record<string, any> | null;
+  /** Transaction this write reverted (undo writes only) */
+  undoOf?: string;
+  /** Record of that transaction this write reverted, when not `recordId` (a re-created record) */
+  revertedRecordId?: string;
+}
+
+/** Options accepted by journaled client writes. */
+export interface JournalOptions {
+  /** Marks the write as reverting this transaction (set by undo) */
+  undoOf?: string;
+  /** For creates reverting deletes: the deleted record IDs, in input order (set by undo) */
+  revertedRecordIds?: string[];
+}
+
+export interface HistoryEntry {
+  txn: string;
+  at: string;
+  op: JournalOp;
+  changes: Record<string, FieldChange>;
+  /** Set when a later undo reverted this change */
+  undone?: boolean;
+  undoOf?: string;
+}
+
+export interface RecordHistory {
+  recordId: string;
+  table: string;
+  tableId: string;
+  entries: HistoryEntry[];
+  /** Net change between `from` and `to`, when a range was requested */
+  diff?: { from?: string; to?: string; changes: Record<string, FieldChange> };
+}
+
+export interface UndoConflict {
+  recordId: string;
+  /** Fields whose current value no longer matches what the change wrote */
+  fields: string[];
+}
+
+export interface UndoPlan {
+  txn: string;
+  at: string;
+  op: JournalOp;
+  table: string;
+  baseId: string;
+  /** Records the undo would touch */
+  records: number;
+  /** Records in the transaction */
+  transactionRecords: number;
+  /** Records an earlier undo of this transaction already reverted */
+  alreadyUndone: number;
+  /**
+   * True when the undo leaves part of the transaction as it is (conflicts,
+   * records deleted since, or an earlier partial undo)
+   */
+  partial: boolean;
+  /** What undo does: delete created records, restore old values, or re-create deleted records */
+  action: "delete" | "restore" | "recreate";
+  conflicts: UndoConflict[];
+}
+
+export interface UndoReport extends UndoPlan {
+  applied: true;
+  report: BatchReport;
+}
+
+/**
+ * Transaction ID: sortable by time, unique per call.
+ */
+export function newTxnId(): string {
+  return `txn_${Date.now().toString(36)}_${randomBytes(3).toString("hex")}`;
+}
+
+/**
+ * Appends entries to the journal file.
+ */
+export function appendJournal(path: string, entries: JournalEntry[]): void {
+  if (!entries.length) return;
+  mkdirSync(dirname(path), { recursive: true });
+  appendFileSync(path, entries.map((e) => JSON.stringify(e)).join("\n") + "\n");
+}
+
+/**
+ * Reads every journal entry, oldest first (empty if there is no journal).
+ */
+export function readJournal(path: string): JournalEntry[] {
+  if (!existsSync(path)) return [];
+  return readFileSync(path, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+}
+
+/**
+ * Keys (`txn:recordId`) of the records undo writes have reverted.
+ */
+function undoneRecords(entries: JournalEntry[]): Set<string> {
+  return new Set(
+    entries.filter((e) => e.undoOf).map((e) => `${e.undoOf}:${e.revertedRecordId ?? e.recordId}`)
+  );
+}
+
+/**
+ * Fields of a record at a point in time, as far as the journal knows: the
+ * `after` of the last change at or before `at`, else the `before` of the
+ * first change after it.
+ */
+function fieldsAt(entries: JournalEntry[], at: string): Record<string, any> {
+  const last = [...entries].reverse().find((e) => e.at <= at);
+  if (last) return last.after || {};
+  return entries[0]?.before || {};
+}
+
+/**
+ * Field-level timeline of one record from the journal.
+ *
+ * @param entries - Journal entries (see readJournal)
+ * @param baseId - Base of the record
+ * @param tableId - Table ID of the record
+ * @param recordId - Record to show
+ * @param range - Optional ISO timestamps; adds the net diff between them
+ * @returns Changes oldest first
+ * @throws {NotFoundError} If the journal has no entries for the record
+ */
+export function recordHistory(
+  entries: JournalEntry[],
+  baseId: string,
+  tableId: string,
+  recordId: string,
+  range?: { from?: string; to?: string }
+): RecordHistory {
+  const undone = undoneRecords(entries);
+  const own = entries.filter((e) => e.baseId === baseId && e.tableId === tableId && e.recordId === recordId);
+  if (!own.length) {
+    throw new NotFoundError(`No journal entries for record ${recordId}`, { context: { baseId, tableId } });
+  }
+
+  const history: RecordHistory = {
+    recordId,
+    table: own[own.length - 1].table,
+    tableId,
+    entries: own.map((e) => ({
+      txn: e.txn,
+      at: e.at,
+      op: e.op,
+      changes: diffFields(e.before || {}, e.after || {}),
+      ...(undone.has(`${e.txn}:${e.recordId}`) ? { undone: true } : {}),
+      ...(e.undoOf ? { undoOf: e.undoOf } : {}),
+    })),
+  };
+  if (range?.from || range?.to) {
+    const from = range.from ? fieldsAt(own, range.from) : own[0].before || {};
+    const to = range.to ? fieldsAt(own, range.to) : own[own.length - 1].after || {};
+    history.diff = { ...range, changes: diffFields(from, to) };
+  }
+  return history;
+}
+
+/**
+ * The transaction undo would revert: the given one, or the latest that is
+ * not an undo and was not undone (even in part). Records already reverted
+ * by an earlier undo are split off.
+ */
+function undoTarget(
+  entries: JournalEntry[],
+  txn?: string
+): { changes: JournalEntry[]; remaining: JournalEntry[] } {
+  const undone = undoneRecords(entries);
+  const undoneTxns = new Set(entries.map((e) => e.undoOf).filter(Boolean));
+  const target = txn ?? [...entries].reverse().find((e) => !e.undoOf && !undoneTxns.has(e.txn))?.txn;
+  const changes = entries.filter((e) => e.txn === target);
+  if (!target || !changes.length) {
+    throw new NotFoundError(txn ? `No journal transaction ${txn}` : "Nothing to undo: the journal has no changes left");
+  }
+  const remaining = changes.filter((e) => !undone.has(`${e.txn}:${e.recordId}`));
+  if (!remaining.length) {
+    throw new ValidationError(`Transaction ${target} was already undone`);
+  }
+  return { changes, remaining };
+}
+
+/**
+ * Converts a journaled value back into something Airtable accepts. Attachments
+ * still on the record are kept by ID; others are re-added from their URL.
+ */
+function writableValue(value: any, type: string, current?: any): any {
+  if (type === "multipleAttachments" && Array.isArray(value)) {
+    const present = new Set(Array.isArray(current) ? current.map((a: any) => a.id) : []);
+    return value.map((a) =>
+      present.has(a.id) ? { id: a.id } : { url: a.url, ...(a.filename ? { filename: a.filename } : {}) }
+    );
+  }
+  return value ?? null;
+}
+
+/**
+ * Plans (or with `apply`, performs) reverting the last journaled change.
+ *
+ * Creates are undone by deleting the records (with a tombstone), updates by
+ * writing back the previous values of the changed fields, deletes by
+ * re-creating the records (they get new IDs). Records changed again since
+ * the journaled write are reported as conflicts and skipped unless `force`;
+ * they stay undoable by passing the transaction again. Only records the
+ * undo actually writes count as undone.
+ *
+ * @param client - Connected Airtable client
+ * @param options - Transaction to undo (default: the latest), apply and force
+ * @returns The plan, plus the write report when applied
+ * @throws {NotFoundError} If there is nothing to undo
+ *
+ * @example
+ * const plan = await undoChange(client);
+ * if (!plan.conflicts.length) await undoChange(client, { txn: plan.txn, apply: true });
+ */
+export async function undoChange(
+  client: AirtableMCPClient,
+  options?: { txn?: string; apply?: boolean; force?: boolean }
+): Promise<UndoPlan | UndoReport> {
+  const { changes: transaction, remaining: changes } = undoTarget(readJournal(client.getJournalPath()), options?.txn);
+  const { txn, at, op, table, baseId, tableId } = changes[0];
+  const schema: TableSchema = await client.describeTable(tableId, baseId);
+
+  const current = new Map<string, AirtableRecord>();
+  if (op !== "delete") {
+    const records = await client.fetchRecordsById(tableId, changes.map((c) => c.recordId), baseId);
+    records.forEach((r) => current.set(r.id, r));
+  }
+
+  // A record conflicts when a field the change wrote has changed again since
+  const conflicts: UndoConflict[] = [];
+  if (op !== "delete") {
+    for (const change of changes) {
+      const record = current.get(change.recordId);
+      if (!record) continue; // deleted since; nothing to revert
+      const written = op === "create"
+        ? Object.keys(change.after || {})
+        : Object.keys(diffFields(change.before || {}, change.after || {}));
+      const drifted = Object.keys(diffFields(
+        Object.fromEntries(written.map((f) => [f, change.after?.[f]])),
+        Object.fromEntries(written.map((f) => [f, record.fields?.[f]]))
+      )).filter((f) => !READ_ONLY_FIELD_TYPES.has(findField(schema, f)?.type || ""));
+      if (drifted.length) conflicts.push({ recordId: change.recordId, fields: drifted });
+    }
+  }
+
+  const targets = changes.filter((c) =>
+    (op === "delete" || current.has(c.recordId)) &&
+    (options?.force || !conflicts.some((x) => x.recordId === c.recordId))
+  );
+  const plan: UndoPlan = {
+    txn,
+    at,
+    op,
+    table,
+    baseId,
+    records: targets.length,
+    transactionRecords: transaction.length,
+    alreadyUndone: transaction.length - changes.length,
+    partial: targets.length < transaction.length,
+    action: op === "create" ? "delete" : op === "update" ? "restore" : "recreate",
+    conflicts,
+  };
+  if (!options?.apply) return plan;
+
+  let report: BatchReport;
+  if (op === "create") {
+    report = await client.deleteRecords(tableId, targets.map((c) => c.recordId), baseId, { undoOf: txn });
+  } else if (op === "update") {
+    const records = targets.map((c) => {
+      const record = current.get(c.recordId)!;
+      const fields: Record<string, any> = {};
+      for (const name of Object.keys(diffFields(c.before || {}, c.after || {}))) {
+        const field = findField(schema, name);
+        if (!field || READ_ONLY_FIELD_TYPES.has(field.type)) continue;
+        fields[name] = writableValue(c.before?.[name], field.type, record.fields?.[name]);
+      }
+      return { id: c.recordId, fields };
+    }).filter((r) => Object.keys(r.fields).length);
+    report = await client.updateRecords(tableId, records, baseId, { undoOf: txn });
+  } else {
+    const records = targets.map((c) => {
+      const fields: Record<string, any> = {};
+      for (const [name, value] of Object.entries(c.before || {})) {
+        const field = findField(schema, name);
+        if (!field || READ_ONLY_FIELD_TYPES.has(field.type)) continue;
+        fields[name] = writableValue(value, field.type);
+      }
+      return fields;
+    });
+    report = await client.createRecords(tableId, records, baseId, {
+      undoOf: txn,
+      revertedRecordIds: targets.map((c) => c.recordId),
+    });
+  }
+  return { ...plan, applied: true, report };
+}
@@ -7,9 +7,25 @@
  *
  * Key features:
  * - Automatic table name → table ID resolution
+ * - Named profiles (base, API key variable, MCP server), base names and table aliases
  * - In-memory caching of table mappings
- * - Filter formula support for complex queries
- * - Batch record operations (update, delete)
+ * - Optional daemon (Unix socket) that keeps the MCP connection warm across runs
+ * - Tag-based cache invalidation keyed by base + table ID
+ * - Filter formulas as strings or built with the escaping builder (formula.ts)
+ * - Offset-based pagination with an async page iterator
+ * - Batch record operations (create, update, delete) chunked to 10 per request
+ * - Grouped aggregates (count, sum, avg, min/max, distinct) over all pages
+ * - Linked-record expansion (inline linked records across tables)
+ * - Upsert by merge key fields
+ * - Filter-based bulk update/delete with a safety cap
+ * - Tombstone backups of deleted records
+ * - Opt-in journal of before/after snapshots with record history and undo
+ * - Attachment uploads via the Airtable content API
+ * - Record comments (MCP tool when available, REST fallback otherwise)
+ * - Per-base request throttling with retry/backoff for 429s and transient errors
+ * - Typed errors (AirtableError subclasses) parsed from MCP error payloads
+ * - Schema validation of outgoing fields, with dry-run previews
+ * - Schema management (create/update tables, create/update fields)
  */
 
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
@@ -18,18 +34,118 @@ import { spawn, ChildProcess } from "child_process";
 import { readFileSync } from "fs";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
-import { PluginCache, TTL, createCacheKey } from "@local/plugin-cache";
+import { PluginCache, TTL } from "@local/plugin-cache";
+import {
+  chunk,
+  runBatches,
+  runBatchesSkipping,
+  BatchLoader,
+  MAX_RECORDS_PER_REQUEST,
+  type BatchOptions,
+  type BatchReport,
+} from "./batch.js";
+import {
+  ConfigError,
+  InvalidFieldError,
+  MCPConnectionError,
+  NotFoundError,
+  TableNotFoundError,
+  ValidationError,
+  parseMcpError,
+  type ErrorContext,
+} from "./errors.js";
+import { validateFields, formatIssues, type FieldIssue } from "./validate.js";
+import { findField, type FieldSchema, type FieldSpec, type TableSchema } from "./schema.js";
+import { writeTombstone } from "./tombstone.js";
+import { expandRecords, parseExpand, DEFAULT_EXPAND_DEPTH, type ExpandOptions } from "./expand.js";
+import { aggregateRecords, type AggregateOptions, type AggregateResult } from "./aggregate.js";
+import { tableTag, commentsTag, schemaTag, taggedKey, tagPattern } from "./cache-tags.js";
+import { appendJournal, newTxnId, type JournalEntry, type JournalOp, type JournalOptions } from "./journal.js";
+import { DaemonConnection, DEFAULT_DAEMON_IDLE_MINUTES, type DaemonMethod } from "./daemon.js";
+import { toCommentPage, toRecordComment, type CommentPage, type RecordComment } from "./comments.js";
+import { and, or, literal, fieldRef, formulaText, type FilterInput } from "./formula.js";
+import { RequestScheduler, type RetryConfig, type RateLimitConfig, type RequestStats } from "./scheduler.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+/** Airtable base IDs: "app" followed by 14 characters. */
+const BASE_ID_PATTERN = /^app[A-Za-z0-9]{14}$/;
+
+interface MCPServerConfig {
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+}
+
+/**
+ * A named set of connection settings, selected with --profile or
+ * AIRTABLE_PROFILE. Unset keys fall back to the top-level config.
+ */
+export interface ProfileConfig {
+  /** Base ID or base name */
+  base: string;
+  /** Environment variable holding this profile's API key (default: AIRTABLE_API_KEY) */
+  apiKeyEnv?: string;
+  mcpServer?: MCPServerConfig;
+  /** Short names for bases, merged over the top-level baseAliases */
+  baseAliases?: Record<string, string>;
+  /** Short names for tables, merged over the top-level tableAliases */
+  tableAliases?: Record<string, string>;
+}
+
 interface MCPConfig {
-  mcpServer: {
-    command: string;
-    args: string[];
-    env?: Record<string, string>;
-  };
+  mcpServer: MCPServerConfig;
+  /** Base ID or base name */
   defaultBase: string;
+  /** Environment variable holding the API key (default: AIRTABLE_API_KEY) */
+  apiKeyEnv?: string;
+  /** Short name → base ID or name, accepted wherever a base is */
+  baseAliases?: Record<string, string>;
+  /** Short name → table name or ID, accepted wherever a table is */
+  tableAliases?: Record<string, string>;
+  profiles?: Record<string, ProfileConfig>;
+  /** Profile used when neither --profile nor AIRTABLE_PROFILE is given */
+  defaultProfile?: string;
+  retry?: RetryConfig;
+  rateLimit?: RateLimitConfig;
+  /** Local state directory (tombstones etc.); defaults to data/ next to config.json */
+  dataDir?: string;
+  daemon?: DaemonConfig;
+  /** Journal every write's before/after snapshots (default: false) */
+  journal?: boolean;
+}
+
+export interface DaemonConfig {
+  /** Use a running daemon when one is found (default: true) */
+  enabled?: boolean;
+  /** Minutes without requests before the daemon exits (default: 15) */
+  idleMinutes?: number;
+  /** Socket path (default: <dataDir>/daemon.sock); a profile's daemon adds "-<profile>" before ".sock" */
+  socketPath?: string;
+}
+
+/**
+ * Merges a profile over the top-level config.
+ *
+ * @throws {ConfigError} If config.json has no profile of that name
+ */
+function applyProfile(config: MCPConfig, name: string): MCPConfig {
+  const profile = config.profiles?.[name];
+  if (!profile) {
+    const known = Object.keys(config.profiles || {});
+    throw new ConfigError(
+      `Unknown profile "${name}". Profiles in config.json: ${known.length ? known.join(", ") : "(none)"}`
+    );
+  }
+  return {
+    ...config,
+    defaultBase: profile.base,
+    apiKeyEnv: profile.apiKeyEnv || config.apiKeyEnv,
+    mcpServer: profile.mcpServer || config.mcpServer,
+    baseAliases: { ...config.baseAliases, ...profile.baseAliases },
+    tableAliases: { ...config.tableAliases, ...profile.tableAliases },
+  };
 }
 
 interface ToolResult {
@@ -37,6 +153,190 @@ interface ToolResult {
   isError?: boolean;
 }
 
+/**
+ * A record. `TFields` narrows the fields type, e.g. to an interface
+ * generated by the codegen command.
+ */
+export interface AirtableRecord<TFields extends Record<string, any> = Record<string, any>> {
+  id: string;
+  createdTime?: string;
+  fields: TFields;
+}
+
+/**
+ * One page of records. `offset` is Airtable's cursor for the next page and is
+ * absent on the last page.
+ */
+export interface RecordPage<TFields extends Record<string, any> = Record<string, any>> {
+  records: AirtableRecord<TFields>[];
+  offset?: string;
+}
+
+type Fields = Record<string, any>;
+
+export interface SortSpec {
+  field: string;
+  direction?: "asc" | "desc";
+}
+
+export interface ListRecordsOptions extends ExpandOptions {
+  baseId?: string;
+  maxRecords?: number;
+  /** Formula string or a built Formula (see formula.ts) */
+  filterFormula?: FilterInput;
+  view?: string;
+  pageSize?: number;
+  offset?: string;
+  sort?: SortSpec[];
+  fields?: string[];
+  /** Skip the cache for this call (not part of the cache key) */
+  bypassCache?: boolean;
+}
+
+export interface SearchRecordsOptions {
+  /** Only keep matches that also satisfy this formula */
+  filter?: FilterInput;
+  sort?: SortSpec[];
+  fields?: string[];
+}
+
+export interface WriteOptions extends BatchOptions, JournalOptions {
+  /** Check fields against the table schema before sending (default: true) */
+  validate?: boolean;
+}
+
+export interface UpsertOptions extends WriteOptions {
+  /** Fields whose combined values identify an existing record */
+  mergeOn: string[];
+  /** Look up matches and report the plan without writing */
+  dryRun?: boolean;
+}
+
+/**
+ * What a write would send, without sending it.
+ * `requests` are the exact tool arguments, one entry per MCP call.
+ */
+export interface DryRunReport {
+  dryRun: true;
+  tool: string;
+  valid: boolean;
+  requests: Array<Record<string, any>>;
+  issues: Array<{ index: number; issues: FieldIssue[] }>;
+}
+
+export interface DeleteOptions extends BatchOptions, JournalOptions {
+  /** Write the records to a tombstone file before deleting (default: true) */
+  backup?: boolean;
+}
+
+export interface DeleteReport extends BatchReport {
+  /** Path of the tombstone file holding the deleted records (absent when none of them existed) */
+  tombstone?: string;
+}
+
+export interface WhereOptions {
+  baseId?: string;
+  view?: string;
+  /** Refuse to write if more records than this match */
+  max?: number;
+}
+
+export interface UpsertReport {
+  total: number;
+  created: Array<{ index: number; id?: string }>;
+  updated: Array<{ index: number; id: string }>;
+  failed: Array<{ index: number; error: string }>;
+  /** Present on dry runs: created/updated list what would happen */
+  dryRun?: true;
+  preview?: { create?: DryRunReport; update?: DryRunReport };
+}
+
+/** Values matched per lookup formula (keeps formulas a sane length). */
+const LOOKUP_FORMULA_CHUNK = 50;
+
+/** Airtable REST API, used where the MCP server has no tool (comments). */
+const AIRTABLE_API_URL = "https://api.airtable.com/v0";
+
+/** Airtable content API, used for attachment uploads. */
+const AIRTABLE_CONTENT_URL = "https://content.airtable.com/v0";
+
+/** Largest file the upload endpoint accepts. */
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Serializes sort specs for cache keys, e.g. "Date:desc,Name:asc".
+ */
+function sortKey(sort?: SortSpec[]): string | undefined {
+  return sort?.map((s) => `${s.field}:${s.direction || "asc"}`).join(",");
+}
+
+/**
+ * Compares two field values for client-side sorting.
+ * Blanks sort last; arrays compare by their joined text.
+ */
+function compareValues(a: any, b: any): number {
+  const blankA = a === undefined || a === null || a === "";
+  const blankB = b === undefined || b === null || b === "";
+  if (blankA || blankB) return blankA === blankB ? 0 : blankA ? 1 : -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b);
+  const textA = Array.isArray(a) ? a.join(", ") : String(a);
+  const textB = Array.isArray(b) ? b.join(", ") : String(b);
+  return textA.localeCompare(textB, undefined, { numeric: true });
+}
+
+/**
+ * Sorts records in place by multiple keys.
+ * Used where the MCP tool has no server-side sort (search_records).
+ */
+function sortRecords(records: AirtableRecord[], sort: SortSpec[]): AirtableRecord[] {
+  return records.sort((x, y) => {
+    for (const { field, direction } of sort) {
+      const order = compareValues(x.fields?.[field], y.fields?.[field]);
+      if (order !== 0) return direction === "desc" ? -order : order;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Builds a stable lookup key from a record's merge field values.
+ * Returns undefined if any merge field is blank.
+ */
+function mergeKey(fields: Record<string, any>, mergeOn: string[]): string | undefined {
+  const values = mergeOn.map((name) => fields?.[name]);
+  if (values.some((v) => v === undefined || v === null || v === "")) return undefined;
+  return JSON.stringify(values.map((v) => String(v)));
+}
+
+/**
+ * Returns a copy of a record containing only the named fields.
+ */
+function projectFields(record: AirtableRecord, fields: string[]): AirtableRecord {
+  const projected: Record<string, any> = {};
+  for (const name of fields) {
+    if (name in (record.fields || {})) projected[name] = record.fields[name];
+  }
+  return { ...record, fields: projected };
+}
+
+/**
+ * Normalizes a list_records response into a RecordPage.
+ * Some MCP servers return a bare array, others the REST shape with an offset.
+ */
+function toRecordPage(result: any): RecordPage {
+  if (Array.isArray(result)) {
+    return { records: result };
+  }
+  return {
+    records: result?.records || [],
+    ...(result?.offset ? { offset: result.offset } : {}),
+  };
+}
+
+/** Tools that must not be retried after an ambiguous (non-429) failure. */
+const NON_IDEMPOTENT_TOOLS = new Set(["create_record"]);
+
 // Initialize cache with namespace
 const cache = new PluginCache({
   namespace: "airtable-manager",
@@ -49,12 +349,21 @@ export class AirtableMCPClient {
   private config: MCPConfig;
   private connected: boolean = false;
   private tableIdCache: Map<string, Map<string, string>> = new Map(); // baseId -> (tableName -> tableId)
+  private baseIdCache: Map<string, string> = new Map(); // base name -> baseId
+  private profile?: string;
   private cacheDisabled: boolean = false;
+  private scheduler: RequestScheduler;
+  private toolNames?: Promise<Set<string>>; // MCP tool names, fetched on first need
+  private recordLoaders: Map<string, BatchLoader<AirtableRecord>> = new Map(); // baseId/table -> batched by-ID fetches
+  private daemon?: Promise<DaemonConnection | null>; // probed on first call; null = direct mode
 
   constructor() {
     // When compiled, __dirname is dist/, so look in parent for config.json
     const configPath = join(__dirname, "..", "config.json");
-    this.config = JSON.parse(readFileSync(configPath, "utf-8"));
+    const config: MCPConfig = JSON.parse(readFileSync(configPath, "utf-8"));
+    this.profile = process.env.AIRTABLE_PROFILE || config.defaultProfile;
+    this.config = this.profile ? applyProfile(config, this.profile) : config;
+    this.scheduler = new RequestScheduler(this.config.retry, this.config.rateLimit);
   }
 
   // ============================================
@@ -103,6 +412,15 @@ export class AirtableMCPClient {
     return cache.invalidate(key);
   }
 
+  /**
+   * Forgets resolved table IDs for a base (or all bases).
+   * @param baseId - Base to forget; omit for every base
+   */
+  clearTableIdCache(baseId?: string): void {
+    if (baseId) this.tableIdCache.delete(baseId);
+    else this.tableIdCache.clear();
+  }
+
   // ============================================
   // CONNECTION MANAGEMENT
   // ============================================
@@ -111,7 +429,8 @@ export class AirtableMCPClient {
    * Establishes connection to the MCP server.
    * Called automatically by other methods when needed.
    *
-   * @throws {Error} If AIRTABLE_API_KEY environment variable is not set
+   * @throws {ConfigError} If AIRTABLE_API_KEY environment variable is not set
+   * @throws {MCPConnectionError} If the MCP server cannot be started
    */
   async connect(): Promise<void> {
     if (this.connected) return;
@@ -120,11 +439,15 @@ export class AirtableMCPClient {
       ...process.env,
       ...this.config.mcpServer.env,
     };
+    // The MCP server always reads AIRTABLE_API_KEY; profiles may keep their key elsewhere
+    if (this.config.apiKeyEnv) {
+      env.AIRTABLE_API_KEY = process.env[this.config.apiKeyEnv];
+    }
 
     // Ensure AIRTABLE_API_KEY is set
     if (!env.AIRTABLE_API_KEY) {
-      throw new Error(
-        "AIRTABLE_API_KEY environment variable is not set. " +
+      throw new ConfigError(
+        `${this.config.apiKeyEnv || "AIRTABLE_API_KEY"} environment variable is not set. ` +
         "Please export it in your shell or add it to ~/.bashrc"
       );
     }
@@ -140,20 +463,82 @@ export class AirtableMCPClient {
       { capabilities: {} }
     );
 
-    await this.client.connect(this.transport);
+    try {
+      await this.client.connect(this.transport);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new MCPConnectionError(`Failed to start MCP server: ${message}`);
+    }
     this.connected = true;
   }
 
   /**
-   * Disconnects from the MCP server.
+   * Always spawn an MCP server instead of using a running daemon. The daemon
+   * itself runs in this mode.
+   */
+  useDirectConnection(): void {
+    this.daemon = Promise.resolve(null);
+  }
+
+  /**
+   * The running daemon's connection, or null in direct mode. Probed once;
+   * set AIRTABLE_DAEMON=off or `daemon.enabled: false` to skip the probe.
+   */
+  private daemonConnection(): Promise<DaemonConnection | null> {
+    if (!this.daemon) {
+      const disabled = process.env.AIRTABLE_DAEMON === "off" || this.config.daemon?.enabled === false;
+      this.daemon = disabled ? Promise.resolve(null) : DaemonConnection.open(this.getDaemonConfig().socketPath);
+    }
+    return this.daemon.then((daemon) => (daemon && !daemon.closed ? daemon : null));
+  }
+
+  /**
+   * Sends a request to the daemon, if one is running. Resolves to undefined
+   * in direct mode, and also when the daemon went away (idle exit, crash,
+   * no answer): the connection is dropped so the caller falls back to
+   * direct mode. Unless `retrySafe`, a lost request throws instead, since
+   * the daemon may have carried it out before going away.
+   */
+  private async viaDaemon(
+    method: DaemonMethod,
+    params?: any,
+    retrySafe = true
+  ): Promise<{ result: any } | undefined> {
+    const daemon = await this.daemonConnection();
+    if (!daemon) return undefined;
+    try {
+      return { result: await daemon.request(method, params) };
+    } catch (error) {
+      if (!daemon.closed) throw error; // failed on the daemon's side
+      this.daemon = Promise.resolve(null);
+      if (!retrySafe) throw error;
+      return undefined;
+    }
+  }
+
+  /**
+   * Disconnects from the MCP server (or the daemon).
    */
   async disconnect(): Promise<void> {
+    const daemon = await this.daemon;
+    if (daemon) {
+      daemon.close();
+      this.daemon = undefined;
+    }
     if (this.client && this.connected) {
       await this.client.close();
       this.connected = false;
     }
   }
 
+  /**
+   * Returns request, retry and throttle counters for this client.
+   * @returns Stats with requests, retries and throttledMs
+   */
+  getRequestStats(): RequestStats {
+    return this.scheduler.getStats();
+  }
+
   // ============================================
   // MCP TOOLS
   // ============================================
@@ -163,6 +548,8 @@ export class AirtableMCPClient {
    * @returns Array of tool definitions with name and description
    */
   async listTools(): Promise<any[]> {
+    const daemon = await this.viaDaemon("listTools");
+    if (daemon) return daemon.result;
     await this.connect();
     const result = await this.client!.listTools();
     return result.tools;
@@ -171,21 +558,50 @@ export class AirtableMCPClient {
   /**
    * Calls an MCP tool with arguments.
    *
+   * Calls are throttled per base (config `rateLimit`, default 5/s) and
+   * rate-limit or transient failures are retried with jittered exponential
+   * backoff (config `retry`). Creates are only retried on rate limits. A
+   * dropped MCP connection is re-established on retry. When a daemon is
+   * running, the call is made (and throttled) by the daemon instead; if the
+   * daemon has gone away the call falls back to a direct connection.
+   *
    * @param name - Tool name (e.g., "list_bases", "list_records")
    * @param args - Tool arguments
    * @returns Parsed tool response (JSON parsed if possible)
-   * @throws {Error} If tool call fails
+   * @throws {AirtableError} Typed by the failure (see errors.ts) after retries
    */
   async callTool(name: string, args: Record<string, any>): Promise<any> {
-    await this.connect();
+    const daemon = await this.viaDaemon("callTool", { name, args }, !NON_IDEMPOTENT_TOOLS.has(name));
+    if (daemon) return daemon.result;
 
-    const result = await this.client!.callTool({ name, arguments: args });
-    const content = result.content as Array<{ type: string; text?: string }>;
+    const context: ErrorContext = { tool: name, baseId: args.baseId, tableId: args.tableId };
 
-    if (result.isError) {
-      const errorContent = content.find((c) => c.type === "text");
-      throw new Error(errorContent?.text || "Tool call failed");
-    }
+    const result = await this.scheduler.run(
+      args.baseId || "global",
+      async () => {
+        await this.connect();
+
+        let response;
+        try {
+          response = await this.client!.callTool({ name, arguments: args });
+        } catch (error) {
+          // Thrown (not isError) failures come from the protocol or transport
+          const message = error instanceof Error ? error.message : String(error);
+          const parsed = parseMcpError(message, context);
+          if (parsed.code === "MCP_CONNECTION") await this.disconnect().catch(() => {});
+          throw parsed;
+        }
+
+        if (response.isError) {
+          const content = response.content as Array<{ type: string; text?: string }>;
+          const errorContent = content.find((c) => c.type === "text");
+          throw parseMcpError(errorContent?.text || "Tool call failed", context);
+        }
+        return response;
+      },
+      { idempotent: !NON_IDEMPOTENT_TOOLS.has(name) }
+    );
+    const content = result.content as Array<{ type: string; text?: string }>;
 
     const textContent = content.find((c) => c.type === "text");
     if (textContent?.text) {
@@ -199,29 +615,127 @@ export class AirtableMCPClient {
     return content;
   }
 
+  /**
+   * Calls the Airtable REST API directly, for operations the MCP server has
+   * no tool for (attachment uploads, comments). Uses the same API key, throttling
+   * and retry policy as callTool.
+   *
+   * @param method - HTTP method
+   * @param url - Full request URL
+   * @param body - JSON body, if any
+   * @param context - Base/table the call concerns (for throttling and errors)
+   * @returns Parsed JSON response
+   * @throws {AirtableError} Typed by the HTTP failure (see errors.ts) after retries
+   */
+  async callRest(method: string, url: string, body?: unknown, context?: ErrorContext): Promise<any> {
+    const apiKey = this.apiKey();
+    return this.scheduler.run(
+      context?.baseId || "global",
+      async () => {
+        let response: Response;
+        try {
+          response = await fetch(url, {
+            method,
+            headers: {
+              Authorization: `Bearer ${apiKey}`,
+              ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+            },
+            body: body !== undefined ? JSON.stringify(body) : undefined,
+          });
+        } catch (error) {
+          throw new MCPConnectionError(error instanceof Error ? error.message : String(error), { context });
+        }
+        const text = await response.text();
+        if (!response.ok) {
+          throw parseMcpError(text || response.statusText, context, response.status);
+        }
+        return text ? JSON.parse(text) : undefined;
+      },
+      { idempotent: method !== "POST" }
+    );
+  }
+
+  /**
+   * API key from the environment or the MCP server config.
+   */
+  private apiKey(): string {
+    const apiKey = this.config.apiKeyEnv
+      ? process.env[this.config.apiKeyEnv]
+      : process.env.AIRTABLE_API_KEY || this.config.mcpServer.env?.AIRTABLE_API_KEY;
+    if (!apiKey) {
+      throw new ConfigError(
+        `${this.config.apiKeyEnv || "AIRTABLE_API_KEY"} environment variable is not set. ` +
+        "Please export it in your shell or add it to ~/.bashrc"
+      );
+    }
+    return apiKey;
+  }
+
   // ============================================
-  // TABLE ID RESOLUTION
+  // BASE AND TABLE ID RESOLUTION
   // ============================================
 
   /**
-   * Resolves a table name to its Airtable table ID.
+   * Resolves a base alias, name or ID to its base ID.
+   *
+   * Aliases come from `baseAliases` in config.json. Names are looked up
+   * through listBases, exact match first, then ignoring case.
+   *
+   * @param base - Base alias, name or ID (defaults to the configured base)
+   * @returns The base ID
+   * @throws {NotFoundError} If no accessible base has that name
+   *
+   * @example
+   * const baseId = await client.resolveBaseId("Wholesale Ops");
+   * // Returns: "appXXXXXXXXXXXXXX"
+   */
+  async resolveBaseId(base?: string): Promise<string> {
+    const requested = base || this.config.defaultBase;
+    const target = this.config.baseAliases?.[requested] ?? requested;
+    if (BASE_ID_PATTERN.test(target)) {
+      return target;
+    }
+    const cached = this.baseIdCache.get(target);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.listBases();
+    const bases: Array<{ id: string; name: string }> = Array.isArray(result) ? result : result?.bases || [];
+    const match = bases.find((b) => b.name === target) ||
+      bases.find((b) => b.name.toLowerCase() === target.toLowerCase());
+    if (!match) {
+      throw new NotFoundError(
+        `Base "${target}" not found. Available bases: ${bases.map((b) => b.name).join(", ")}`,
+        { context: { baseId: target } }
+      );
+    }
+    this.baseIdCache.set(target, match.id);
+    return match.id;
+  }
+
+  /**
+   * Resolves a table alias or name to its Airtable table ID.
    *
    * Some Airtable MCP tools (describe_table, search_records) only work with
    * table IDs (e.g., "tblXXXXXXX"), not table names. This method handles the
    * automatic resolution.
    *
-   * Results are cached in memory per base to avoid repeated API calls.
+   * Aliases from `tableAliases` in config.json are applied first. Results
+   * are cached in memory per base to avoid repeated API calls.
    *
-   * @param tableName - Table name or table ID (IDs starting with "tbl" pass through)
+   * @param tableName - Table alias, name or ID (IDs starting with "tbl" pass through)
    * @param baseId - Airtable base ID
    * @returns The table ID
-   * @throws {Error} If table is not found in the base
+   * @throws {TableNotFoundError} If table is not found in the base
    *
    * @example
    * const tableId = await client.resolveTableId("Products", "appXXXXXX");
    * // Returns: "tblYYYYYY"
    */
-  private async resolveTableId(tableName: string, baseId: string): Promise<string> {
+  async resolveTableId(tableName: string, baseId: string): Promise<string> {
+    tableName = this.config.tableAliases?.[tableName] ?? tableName;
+
     // If it looks like a table ID already (starts with "tbl"), return as-is
     if (tableName.startsWith("tbl")) {
       return tableName;
@@ -235,6 +749,15 @@ export class AirtableMCPClient {
       }
     }
 
+    // A daemon keeps its map across runs
+    const daemon = await this.viaDaemon("resolveTableId", { tableName, baseId });
+    if (daemon) {
+      const tableId: string = daemon.result;
+      if (!this.tableIdCache.has(baseId)) this.tableIdCache.set(baseId, new Map());
+      this.tableIdCache.get(baseId)!.set(tableName, tableId);
+      return tableId;
+    }
+
     // Fetch tables and cache them
     const tablesResult = await this.callTool("list_tables", { baseId });
     const tables = tablesResult.tables || [];
@@ -249,7 +772,10 @@ export class AirtableMCPClient {
     // Look up the requested table
     const tableId = baseCache.get(tableName);
     if (!tableId) {
-      throw new Error(`Table "${tableName}" not found in base ${baseId}. Available tables: ${tables.map((t: any) => t.name).join(", ")}`);
+      throw new TableNotFoundError(
+        `Table "${tableName}" not found in base ${baseId}. Available tables: ${tables.map((t: any) => t.name).join(", ")}`,
+        { context: { baseId, tableId: tableName } }
+      );
     }
 
     return tableId;
@@ -284,6 +810,7 @@ export class AirtableMCPClient {
    * Lists all tables in a base.
    *
    * @param baseId - Airtable base ID (defaults to configured default base)
+   * @param options - `bypassCache` to read the live schema
    * @returns Object with tables array containing id, name, and field definitions
    *
    * @cached TTL: 1 hour
@@ -292,14 +819,14 @@ export class AirtableMCPClient {
    * const { tables } = await client.listTables();
    * console.log(tables.map(t => t.name)); // ["Products", "Orders", ...]
    */
-  async listTables(baseId?: string): Promise<any> {
-    const resolvedBaseId = baseId || this.config.defaultBase;
-    const cacheKey = createCacheKey("tables", { baseId: resolvedBaseId });
+  async listTables(baseId?: string, options?: { bypassCache?: boolean }): Promise<any> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+    const cacheKey = taggedKey("tables", { baseId: resolvedBaseId }, [schemaTag(resolvedBaseId)]);
 
     return cache.getOrFetch(
       cacheKey,
       () => this.callTool("list_tables", { baseId: resolvedBaseId }),
-      { ttl: TTL.HOUR, bypassCache: this.cacheDisabled }
+      { ttl: TTL.HOUR, bypassCache: this.cacheDisabled || options?.bypassCache }
     );
   }
 
@@ -310,6 +837,7 @@ export class AirtableMCPClient {
    *
    * @param tableName - Table name or table ID
    * @param baseId - Airtable base ID (defaults to configured default base)
+   * @param options - `bypassCache` to read the live schema
    * @returns Table schema with field definitions, types, and options
    *
    * @cached TTL: 1 hour
@@ -320,10 +848,10 @@ export class AirtableMCPClient {
    *   console.log(field.name, field.type);
    * }
    */
-  async describeTable(tableName: string, baseId?: string): Promise<any> {
-    const resolvedBaseId = baseId || this.config.defaultBase;
+  async describeTable(tableName: string, baseId?: string, options?: { bypassCache?: boolean }): Promise<any> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
     const tableId = await this.resolveTableId(tableName, resolvedBaseId);
-    const cacheKey = createCacheKey("table_schema", { baseId: resolvedBaseId, tableId });
+    const cacheKey = taggedKey("table_schema", { baseId: resolvedBaseId, tableId }, [schemaTag(resolvedBaseId)]);
 
     return cache.getOrFetch(
       cacheKey,
@@ -331,24 +859,32 @@ export class AirtableMCPClient {
         baseId: resolvedBaseId,
         tableId: tableId,
       }),
-      { ttl: TTL.HOUR, bypassCache: this.cacheDisabled }
+      { ttl: TTL.HOUR, bypassCache: this.cacheDisabled || options?.bypassCache }
     );
   }
 
   /**
-   * Lists records from a table with optional filtering.
+   * Lists one page of records from a table with optional filtering.
    *
-   * Supports Airtable formula filtering for complex queries.
+   * Supports Airtable formula filtering for complex queries. When more records
+   * are available, the returned page carries an `offset` cursor that can be
+   * passed back to fetch the next page (see iterateRecords).
    *
    * @param tableName - Table name or table ID
    * @param options - Query options
    * @param options.baseId - Override default base ID
-   * @param options.maxRecords - Maximum records to return
+   * @param options.maxRecords - Maximum records to return across all pages
    * @param options.filterFormula - Airtable formula to filter records
    * @param options.view - View name to use (applies view's filters/sorts)
-   * @returns Object with records array containing id and fields
+   * @param options.pageSize - Records per page (Airtable max: 100)
+   * @param options.offset - Cursor from a previous page
+   * @param options.sort - Sort keys, applied in order
+   * @param options.fields - Only return these fields
+   * @param options.expand - Link fields to inline, e.g. ["Order", "Order.Customer"]
+   * @param options.expandDepth - Maximum expansion depth (default: 3)
+   * @returns Page with records array and optional offset
    *
-   * @cached TTL: 15 minutes
+   * @cached TTL: 15 minutes (per page; expanded records per record)
    *
    * @example
    * // Get all products in stock
@@ -358,45 +894,185 @@ export class AirtableMCPClient {
    * });
    *
    * @example
+   * // Build the filter instead of hand-escaping it
+   * const { records } = await client.listRecords("Products", {
+   *   filterFormula: where(field("Status").eq("In Stock")).and(field("Qty").gt(0))
+   * });
+   *
+   * @example
    * // Use a specific view
    * const { records } = await client.listRecords("Orders", {
    *   view: "Pending Orders"
    * });
+   *
+   * @example
+   * // Newest first, only two columns
+   * const { records } = await client.listRecords("Orders", {
+   *   sort: [{ field: "Date", direction: "desc" }, { field: "Name" }],
+   *   fields: ["Name", "Status"]
+   * });
+   *
+   * @example
+   * // Typed fields from generated code
+   * const { records } = await client.listRecords<ProductsFields>("Products");
+   * records[0].fields.Status; // "In Stock" | "Sold" | undefined
    */
-  async listRecords(
+  async listRecords<T extends Fields = Fields>(
     tableName: string,
-    options?: {
-      baseId?: string;
-      maxRecords?: number;
-      filterFormula?: string;
-      view?: string;
-    }
-  ): Promise<any> {
-    const resolvedBaseId = options?.baseId || this.config.defaultBase;
-    const cacheKey = createCacheKey("records", {
+    options?: ListRecordsOptions
+  ): Promise<RecordPage<T>> {
+    const resolvedBaseId = await this.resolveBaseId(options?.baseId);
+    const tableId = await this.resolveTableId(tableName, resolvedBaseId);
+    const cacheKey = taggedKey("records", {
       baseId: resolvedBaseId,
-      table: tableName,
+      tableId,
       maxRecords: options?.maxRecords,
-      filter: options?.filterFormula,
+      filter: formulaText(options?.filterFormula),
       view: options?.view,
-    });
+      pageSize: options?.pageSize,
+      offset: options?.offset,
+      sort: sortKey(options?.sort),
+      fields: options?.fields?.join(","),
+    }, [tableTag(resolvedBaseId, tableId)]);
 
-    return cache.getOrFetch(
+    const page = (await cache.getOrFetch(
       cacheKey,
       async () => {
         const args: Record<string, any> = {
           baseId: resolvedBaseId,
-          tableId: tableName,
+          tableId,
         };
 
         if (options?.maxRecords) args.maxRecords = options.maxRecords;
-        if (options?.filterFormula) args.filterByFormula = options.filterFormula;
+        if (options?.filterFormula) args.filterByFormula = formulaText(options.filterFormula);
         if (options?.view) args.view = options.view;
+        if (options?.pageSize) args.pageSize = options.pageSize;
+        if (options?.offset) args.offset = options.offset;
+        if (options?.sort?.length) {
+          args.sort = options.sort.map((s) => ({ field: s.field, direction: s.direction || "asc" }));
+        }
+        if (options?.fields?.length) args.fields = options.fields;
 
-        return this.callTool("list_records", args);
+        return toRecordPage(await this.callTool("list_records", args));
       },
-      { ttl: TTL.FIFTEEN_MINUTES, bypassCache: this.cacheDisabled }
-    );
+      { ttl: TTL.FIFTEEN_MINUTES, bypassCache: this.cacheDisabled || options?.bypassCache }
+    )) as RecordPage<T>;
+
+    if (!options?.expand) return page;
+    return { ...page, records: await this.expand(tableName, page.records, options, resolvedBaseId) };
+  }
+
+  /**
+   * Iterates over every page of a table, following offset cursors.
+   *
+   * Starts from `options.offset` if given. Stops after the last page or once
+   * `options.maxRecords` records have been yielded.
+   *
+   * @param tableName - Table name or table ID
+   * @param options - Same options as listRecords
+   * @yields One RecordPage per request
+   *
+   * @example
+   * for await (const page of client.iterateRecords("Products", { pageSize: 100 })) {
+   *   for (const record of page.records) {
+   *     console.log(record.id);
+   *   }
+   * }
+   */
+  async *iterateRecords<T extends Fields = Fields>(
+    tableName: string,
+    options?: ListRecordsOptions
+  ): AsyncGenerator<RecordPage<T>, void, undefined> {
+    let offset = options?.offset;
+    let remaining = options?.maxRecords;
+
+    do {
+      let page = await this.listRecords<T>(tableName, { ...options, offset });
+      if (remaining !== undefined) {
+        // Guard against servers that ignore maxRecords across pages
+        page = { ...page, records: page.records.slice(0, remaining) };
+        remaining -= page.records.length;
+      }
+      yield page;
+      offset = page.offset;
+    } while (offset && (remaining === undefined || remaining > 0));
+  }
+
+  /**
+   * Fetches every matching record by walking all pages.
+   *
+   * @param tableName - Table name or table ID
+   * @param options - Same options as listRecords (offset sets the starting page)
+   * @returns All records plus the number of pages fetched
+   *
+   * @example
+   * const { records } = await client.listAllRecords("Products");
+   */
+  async listAllRecords<T extends Fields = Fields>(
+    tableName: string,
+    options?: ListRecordsOptions
+  ): Promise<{ records: AirtableRecord<T>[]; pages: number }> {
+    const records: AirtableRecord<T>[] = [];
+    let pages = 0;
+    for await (const page of this.iterateRecords<T>(tableName, options)) {
+      records.push(...page.records);
+      pages++;
+    }
+    return { records, pages };
+  }
+
+  /**
+   * Computes grouped counts, sums, averages, min/max and distinct counts
+   * over every matching record (see aggregate.ts).
+   *
+   * @param tableName - Table name or table ID
+   * @param options - Filter/view, group-by fields (with date buckets or
+   *   explode) and metrics
+   * @returns One row per group
+   *
+   * @example
+   * // Products per Status, most common first
+   * const { rows } = await client.aggregate("Products", {
+   *   groupBy: [{ field: "Status" }],
+   *   sort: [{ field: "count", direction: "desc" }]
+   * });
+   */
+  async aggregate(tableName: string, options: AggregateOptions): Promise<AggregateResult> {
+    return aggregateRecords(this, tableName, options);
+  }
+
+  /**
+   * Fetches current versions of records by ID, bypassing the cache.
+   *
+   * Uses RECORD_ID() filter formulas, so 50 records cost one request rather
+   * than 50 get_record calls. IDs that no longer exist are simply absent.
+   *
+   * @param tableName - Table name or table ID
+   * @param recordIds - Record IDs to fetch
+   * @param baseId - Override default base ID
+   * @param filter - Only return records that also match this formula
+   * @returns Records found, in no particular order
+   */
+  async fetchRecordsById(
+    tableName: string,
+    recordIds: string[],
+    baseId?: string,
+    filter?: FilterInput
+  ): Promise<AirtableRecord[]> {
+    const records: AirtableRecord[] = [];
+    for (let i = 0; i < recordIds.length; i += LOOKUP_FORMULA_CHUNK) {
+      const clauses = recordIds
+        .slice(i, i + LOOKUP_FORMULA_CHUNK)
+        .map((id) => `RECORD_ID()=${literal(id)}`);
+      const byId = or(...clauses);
+      const page = await this.listAllRecords(tableName, {
+        baseId,
+        filterFormula: filter ? and(filter, byId) : byId,
+        bypassCache: true,
+      });
+      records.push(...page.records);
+    }
+    return records;
   }
 
   /**
@@ -405,6 +1081,7 @@ export class AirtableMCPClient {
    * @param tableName - Table name or table ID
    * @param recordId - Airtable record ID (e.g., "recXXXXXX")
    * @param baseId - Override default base ID
+   * @param options - Link fields to inline (`expand`) and maximum depth
    * @returns Record object with id and fields
    *
    * @cached TTL: 15 minutes
@@ -412,24 +1089,114 @@ export class AirtableMCPClient {
    * @example
    * const record = await client.getRecord("Products", "recABC123");
    * console.log(record.fields["SerialNumber"]);
+   *
+   * @example
+   * // Typed fields from generated code
+   * const product = await client.getRecord<ProductsFields>("Products", "recABC123");
+   *
+   * @example
+   * // Inline the linked order and its customer
+   * const product = await client.getRecord("Products", "recABC123", undefined, {
+   *   expand: ["Order", "Order.Customer"]
+   * });
    */
-  async getRecord(tableName: string, recordId: string, baseId?: string): Promise<any> {
-    const resolvedBaseId = baseId || this.config.defaultBase;
-    const cacheKey = createCacheKey("record", {
-      baseId: resolvedBaseId,
-      table: tableName,
-      id: recordId,
-    });
+  async getRecord<T extends Fields = Fields>(
+    tableName: string,
+    recordId: string,
+    baseId?: string,
+    options?: ExpandOptions
+  ): Promise<AirtableRecord<T>> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+    const tableId = await this.resolveTableId(tableName, resolvedBaseId);
+    const cacheKey = this.recordKey(resolvedBaseId, tableId, recordId);
 
-    return cache.getOrFetch(
+    const record: AirtableRecord<T> = await cache.getOrFetch(
       cacheKey,
       () => this.callTool("get_record", {
         baseId: resolvedBaseId,
-        tableId: tableName,
+        tableId,
         recordId: recordId,
       }),
       { ttl: TTL.FIFTEEN_MINUTES, bypassCache: this.cacheDisabled }
     );
+
+    if (!options?.expand) return record;
+    const [expanded] = await this.expand(tableName, [record], options, resolvedBaseId);
+    return expanded;
+  }
+
+  /**
+   * Gets records by ID through the per-record cache.
+   *
+   * Cache misses from concurrent calls are combined into batched
+   * list_records lookups, so expanding many records fetches each linked
+   * table once per level rather than once per record.
+   *
+   * @param tableName - Table name or table ID
+   * @param recordIds - Record IDs (duplicates are fetched once)
+   * @param baseId - Override default base ID
+   * @returns Records found, in first-seen ID order; missing IDs are skipped
+   *
+   * @cached TTL: 15 minutes (per record, shared with getRecord)
+   */
+  async getRecordsById<T extends Fields = Fields>(
+    tableName: string,
+    recordIds: string[],
+    baseId?: string
+  ): Promise<AirtableRecord<T>[]> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+    const tableId = await this.resolveTableId(tableName, resolvedBaseId);
+    const loader = this.recordLoader(tableId, resolvedBaseId);
+
+    const records = await Promise.all([...new Set(recordIds)].map((id) =>
+      cache.getOrFetch(
+        this.recordKey(resolvedBaseId, tableId, id),
+        async () => {
+          const record = await loader.load(id);
+          if (!record) {
+            throw new NotFoundError(`Record ${id} not found in table "${tableName}"`, {
+              context: { baseId: resolvedBaseId, tableId },
+            });
+          }
+          return record;
+        },
+        { ttl: TTL.FIFTEEN_MINUTES, bypassCache: this.cacheDisabled }
+      ).catch((error: unknown) => {
+        if (error instanceof NotFoundError) return undefined;
+        throw error;
+      })
+    ));
+    return records.filter((r): r is AirtableRecord<T> => r !== undefined);
+  }
+
+  /**
+   * Cache key for a single record. Shared by getRecord and getRecordsById.
+   */
+  private recordKey(baseId: string, tableId: string, recordId: string): string {
+    return taggedKey("record", { baseId, tableId, id: recordId }, [tableTag(baseId, tableId)]);
+  }
+
+  private recordLoader(tableName: string, baseId: string): BatchLoader<AirtableRecord> {
+    const key = `${baseId}/${tableName}`;
+    let loader = this.recordLoaders.get(key);
+    if (!loader) {
+      loader = new BatchLoader(async (ids) => {
+        const records = await this.fetchRecordsById(tableName, ids, baseId);
+        return new Map(records.map((r) => [r.id, r]));
+      });
+      this.recordLoaders.set(key, loader);
+    }
+    return loader;
+  }
+
+  private async expand<T extends AirtableRecord<any>>(
+    tableName: string,
+    records: T[],
+    options: ExpandOptions,
+    baseId: string
+  ): Promise<T[]> {
+    const tree = parseExpand(options.expand!, options.expandDepth ?? DEFAULT_EXPAND_DEPTH);
+    return expandRecords(this, tableName, records, tree, baseId);
   }
 
   /**
@@ -441,34 +1208,182 @@ export class AirtableMCPClient {
    * @param tableName - Table name or table ID
    * @param searchTerm - Text to search for
    * @param baseId - Override default base ID
-   * @returns Object with matching records
+   * @param options - Result shaping
+   * @param options.filter - Formula the matches must also satisfy (checked with a follow-up list_records call)
+   * @param options.sort - Sort keys (applied client-side; search_records has no sort)
+   * @param options.fields - Only return these fields (applied client-side)
+   * @returns Page with matching records
    *
    * @cached TTL: 5 minutes
    *
    * @example
    * // Search for a serial number
    * const results = await client.searchRecords("Products", "L9EXXX12345");
+   *
+   * @example
+   * // Only the columns we need, newest first
+   * const results = await client.searchRecords("Products", "L9E", undefined, {
+   *   fields: ["SerialNumber", "Status"],
+   *   sort: [{ field: "Created", direction: "desc" }]
+   * });
+   *
+   * @example
+   * // Only hits that are still in stock
+   * const results = await client.searchRecords("Products", "L9E", undefined, {
+   *   filter: field("Status").eq("In Stock")
+   * });
    */
-  async searchRecords(tableName: string, searchTerm: string, baseId?: string): Promise<any> {
-    const resolvedBaseId = baseId || this.config.defaultBase;
+  async searchRecords(
+    tableName: string,
+    searchTerm: string,
+    baseId?: string,
+    options?: SearchRecordsOptions
+  ): Promise<RecordPage> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
     const tableId = await this.resolveTableId(tableName, resolvedBaseId);
-    const cacheKey = createCacheKey("search", {
+    const cacheKey = taggedKey("search", {
       baseId: resolvedBaseId,
       tableId,
       term: searchTerm,
-    });
+      filter: formulaText(options?.filter),
+      sort: sortKey(options?.sort),
+      fields: options?.fields?.join(","),
+    }, [tableTag(resolvedBaseId, tableId)]);
 
     return cache.getOrFetch(
       cacheKey,
-      () => this.callTool("search_records", {
-        baseId: resolvedBaseId,
-        tableId: tableId,
-        searchTerm: searchTerm,
-      }),
+      async () => {
+        const args: Record<string, any> = {
+          baseId: resolvedBaseId,
+          tableId: tableId,
+          searchTerm: searchTerm,
+        };
+        const page = toRecordPage(await this.callTool("search_records", args));
+        if (options?.filter && page.records.length) {
+          // search_records has no formula filter; narrow the hits by ID
+          const kept = await this.fetchRecordsById(
+            tableId,
+            page.records.map((r) => r.id),
+            resolvedBaseId,
+            options.filter
+          );
+          const keptIds = new Set(kept.map((r) => r.id));
+          page.records = page.records.filter((r) => keptIds.has(r.id));
+        }
+        if (options?.sort?.length) sortRecords(page.records, options.sort);
+        if (options?.fields?.length) {
+          page.records = page.records.map((r) => projectFields(r, options.fields!));
+        }
+        return page;
+      },
       { ttl: TTL.FIVE_MINUTES, bypassCache: this.cacheDisabled }
     );
   }
 
+  // ============================================
+  // WRITE VALIDATION
+  // ============================================
+
+  /**
+   * Validates outgoing field values against the table schema.
+   *
+   * Catches unknown field names, writes to computed fields (formula, rollup,
+   * lookup, ...), wrong value types and select values that are not existing
+   * choices. Uses the cached describeTable schema.
+   *
+   * @param tableName - Table name or table ID
+   * @param records - Field values per record
+   * @param baseId - Override default base ID
+   * @returns Issues per record; issues[i] belongs to records[i]
+   *
+   * @example
+   * const [issues] = await client.validateRecords("Products", [{ "Stauts": "Sold" }]);
+   * // [{ field: "Stauts", code: "UNKNOWN_FIELD", ... }]
+   */
+  async validateRecords(
+    tableName: string,
+    records: Array<Record<string, any>>,
+    baseId?: string
+  ): Promise<FieldIssue[][]> {
+    const schema: TableSchema = await this.describeTable(tableName, baseId);
+    return records.map((fields) => validateFields(schema, fields));
+  }
+
+  /**
+   * Builds the create_record calls createRecords would make, with validation.
+   *
+   * @param tableName - Table name or table ID
+   * @param records - Field values for each record
+   * @param baseId - Override default base ID
+   * @returns Exact tool arguments and per-record issues
+   */
+  async previewCreate(
+    tableName: string,
+    records: Array<Record<string, any>>,
+    baseId?: string
+  ): Promise<DryRunReport> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+    const tableId = await this.resolveTableId(tableName, resolvedBaseId);
+    const issues = await this.validateRecords(tableName, records, resolvedBaseId);
+    return this.dryRunReport("create_record", issues, records.map((fields) => ({
+      baseId: resolvedBaseId,
+      tableId,
+      fields,
+    })));
+  }
+
+  /**
+   * Builds the update_records calls updateRecords would make, with validation.
+   *
+   * @param tableName - Table name or table ID
+   * @param records - Records to update, each with id and fields
+   * @param baseId - Override default base ID
+   * @returns Exact tool arguments (10 records per call) and per-record issues
+   */
+  async previewUpdate(
+    tableName: string,
+    records: Array<{ id: string; fields: Record<string, any> }>,
+    baseId?: string
+  ): Promise<DryRunReport> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+    const tableId = await this.resolveTableId(tableName, resolvedBaseId);
+    const issues = await this.validateRecords(tableName, records.map((r) => r.fields), resolvedBaseId);
+    return this.dryRunReport("update_records", issues, chunk(records, MAX_RECORDS_PER_REQUEST).map((part) => ({
+      baseId: resolvedBaseId,
+      tableId,
+      records: part,
+    })));
+  }
+
+  private dryRunReport(
+    tool: string,
+    issues: FieldIssue[][],
+    requests: Array<Record<string, any>>
+  ): DryRunReport {
+    const withIssues = issues
+      .map((list, index) => ({ index, issues: list }))
+      .filter((entry) => entry.issues.length > 0);
+    return { dryRun: true, tool, valid: withIssues.length === 0, requests, issues: withIssues };
+  }
+
+  /**
+   * Validates records unless disabled; returns index → message for failures.
+   */
+  private async rejectInvalid(
+    tableName: string,
+    records: Array<Record<string, any>>,
+    baseId: string,
+    options?: WriteOptions
+  ): Promise<Map<number, string>> {
+    const rejected = new Map<number, string>();
+    if (options?.validate === false || !records.length) return rejected;
+    const issues = await this.validateRecords(tableName, records, baseId);
+    issues.forEach((list, index) => {
+      if (list.length) rejected.set(index, `Validation failed: ${formatIssues(list)}`);
+    });
+    return rejected;
+  }
+
   // ============================================
   // MUTATION OPERATIONS
   // ============================================
@@ -476,12 +1391,17 @@ export class AirtableMCPClient {
   /**
    * Creates a new record in a table.
    *
+   * Fields are validated against the table schema first unless
+   * `options.validate` is false.
+   *
    * @param tableName - Table name or table ID
    * @param fields - Field values to set (field name → value)
    * @param baseId - Override default base ID
+   * @param options - Write settings (validate)
    * @returns Created record object with id and fields
+   * @throws {InvalidFieldError} If validation fails (details lists the issues)
    *
-   * @invalidates records/{tableName}/*
+   * @invalidates cached records of the table
    *
    * @example
    * const record = await client.createRecord("Products", {
@@ -491,29 +1411,116 @@ export class AirtableMCPClient {
    * });
    * console.log("Created:", record.id);
    */
-  async createRecord(tableName: string, fields: Record<string, any>, baseId?: string): Promise<any> {
+  async createRecord(
+    tableName: string,
+    fields: Record<string, any>,
+    baseId?: string,
+    options?: WriteOptions
+  ): Promise<any> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+    if (options?.validate !== false) {
+      const [issues] = await this.validateRecords(tableName, [fields], resolvedBaseId);
+      if (issues.length) {
+        throw new InvalidFieldError(`Validation failed: ${formatIssues(issues)}`, {
+          context: { baseId: resolvedBaseId, tableId: tableName, tool: "create_record" },
+          details: issues,
+        });
+      }
+    }
     const result = await this.callTool("create_record", {
-      baseId: baseId || this.config.defaultBase,
-      tableId: tableName,
+      baseId: resolvedBaseId,
+      tableId: await this.resolveTableId(tableName, resolvedBaseId),
       fields: fields,
     });
-    // Invalidate records cache for this table
-    cache.invalidatePattern(new RegExp(`^records.*table=${tableName}`));
+    await this.invalidateTable(tableName, resolvedBaseId);
+    await this.journal("create", tableName, resolvedBaseId, [
+      { recordId: result?.id, before: null, after: result?.fields ?? fields },
+    ], options);
     return result;
   }
 
+  /**
+   * Creates many records in a table.
+   *
+   * Records are processed in chunks of 10 with bounded concurrency. The MCP
+   * server only exposes a single-record create tool, so each record in a
+   * chunk is its own call; a failure affects only that record. Records that
+   * fail schema validation are reported as failed and never sent.
+   *
+   * @param tableName - Table name or table ID
+   * @param records - Field values for each record to create
+   * @param baseId - Override default base ID
+   * @param options - Batch and validation settings
+   * @returns Per-record report; results[i] matches records[i]
+   *
+   * @invalidates cached records of the table
+   *
+   * @example
+   * const report = await client.createRecords("Products", [
+   *   { "SerialNumber": "L9EXXX12345" },
+   *   { "SerialNumber": "L9EXXX12346" },
+   * ]);
+   * console.log(report.succeeded, "created,", report.failed, "failed");
+   */
+  async createRecords(
+    tableName: string,
+    records: Array<Record<string, any>>,
+    baseId?: string,
+    options?: WriteOptions
+  ): Promise<BatchReport> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+    const tableId = await this.resolveTableId(tableName, resolvedBaseId);
+    const rejected = await this.rejectInvalid(tableName, records, resolvedBaseId, options);
+    const report = await runBatchesSkipping(
+      records,
+      rejected,
+      async (part) => {
+        const results = [];
+        for (const fields of part) {
+          try {
+            const record = await this.callTool("create_record", {
+              baseId: resolvedBaseId,
+              tableId,
+              fields: fields,
+            });
+            results.push({ ok: true, id: record?.id, record });
+          } catch (error) {
+            results.push({ ok: false, error: error instanceof Error ? error.message : String(error) });
+          }
+        }
+        return results;
+      },
+      options
+    );
+    await this.invalidateTable(tableName, resolvedBaseId);
+    await this.journal("create", tableName, resolvedBaseId, report.results
+      .filter((r) => r.ok && r.id)
+      .map((r) => ({
+        recordId: r.id!,
+        before: null,
+        after: r.record?.fields ?? records[r.index],
+        // Undo re-creating deleted records: the new record reverts the old one
+        ...(options?.revertedRecordIds ? { revertedRecordId: options.revertedRecordIds[r.index] } : {}),
+      })), options);
+    return report;
+  }
+
   /**
    * Updates one or more records in a table.
    *
    * Supports batch updates - each record needs an id and fields to update.
    * Only specified fields are updated; other fields remain unchanged.
+   * Records are sent in chunks of 10 with bounded concurrency; a failed
+   * chunk is reported per record without stopping the others. Records that
+   * fail schema validation are reported as failed and never sent.
    *
    * @param tableName - Table name or table ID
    * @param records - Array of records to update, each with id and fields
    * @param baseId - Override default base ID
-   * @returns Array of updated record objects
+   * @param options - Batch and validation settings
+   * @returns Per-record report; results[i] matches records[i]
    *
-   * @invalidates records/{tableName}/*, record/{recordId}
+   * @invalidates cached records of the table
    *
    * @example
    * // Update single record
@@ -523,7 +1530,7 @@ export class AirtableMCPClient {
    *
    * @example
    * // Batch update multiple records
-   * await client.updateRecords("Products", [
+   * const report = await client.updateRecords("Products", [
    *   { id: "recABC123", fields: { "Status": "Sold" } },
    *   { id: "recDEF456", fields: { "Status": "Sold" } },
    * ]);
@@ -531,58 +1538,886 @@ export class AirtableMCPClient {
   async updateRecords(
     tableName: string,
     records: Array<{ id: string; fields: Record<string, any> }>,
+    baseId?: string,
+    options?: WriteOptions
+  ): Promise<BatchReport> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+    const tableId = await this.resolveTableId(tableName, resolvedBaseId);
+    const rejected = await this.rejectInvalid(tableName, records.map((r) => r.fields), resolvedBaseId, options);
+    const before = this.isJournalEnabled()
+      ? await this.snapshot(tableName, records.map((r) => r.id), resolvedBaseId)
+      : undefined;
+    const report = await runBatchesSkipping(
+      records,
+      rejected,
+      async (part) => {
+        const result = await this.callTool("update_records", {
+          baseId: resolvedBaseId,
+          tableId,
+          records: part,
+        });
+        const updated = new Map(toRecordPage(result).records.map((r) => [r.id, r]));
+        return part.map((r) => ({ ok: true, id: r.id, record: updated.get(r.id) }));
+      },
+      options
+    );
+    await this.invalidateTable(tableName, resolvedBaseId);
+    await this.journal("update", tableName, resolvedBaseId, report.results
+      .filter((r) => r.ok && r.id)
+      .map((r) => ({ recordId: r.id!, before: before?.get(r.id!) ?? null, after: r.record?.fields ?? null })), options);
+    return report;
+  }
+
+  /**
+   * Uploads a file into a record's attachment field.
+   *
+   * Uses Airtable's upload endpoint (the MCP server has no upload tool), which
+   * appends to the field, so existing attachments are kept.
+   *
+   * @param tableName - Table name or table ID
+   * @param recordId - Record to attach to
+   * @param fieldName - Attachment field name or ID
+   * @param file - File contents, name and MIME type (max 5 MB)
+   * @param baseId - Override default base ID
+   * @returns The field's attachments after the upload
+   * @throws {ValidationError} If the file exceeds the upload limit
+   *
+   * @invalidates cached records of the table
+   */
+  async uploadAttachment(
+    tableName: string,
+    recordId: string,
+    fieldName: string,
+    file: { filename: string; contentType: string; data: Buffer },
     baseId?: string
-  ): Promise<any> {
-    const result = await this.callTool("update_records", {
-      baseId: baseId || this.config.defaultBase,
-      tableId: tableName,
-      records: records,
-    });
-    // Invalidate records cache for this table
-    cache.invalidatePattern(new RegExp(`^records.*table=${tableName}`));
-    // Invalidate individual record caches
-    for (const record of records) {
-      cache.invalidate(createCacheKey("record", {
-        baseId: baseId || this.config.defaultBase,
-        table: tableName,
-        id: record.id,
-      }));
+  ): Promise<any[]> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+    if (file.data.length > MAX_UPLOAD_BYTES) {
+      throw new ValidationError(
+        `${file.filename} is ${file.data.length} bytes; direct uploads are limited to ${MAX_UPLOAD_BYTES} bytes. ` +
+        "Host the file and attach it by URL instead."
+      );
     }
-    return result;
+    const url = `${AIRTABLE_CONTENT_URL}/${resolvedBaseId}/${recordId}/${encodeURIComponent(fieldName)}/uploadAttachment`;
+    const result = await this.callRest(
+      "POST",
+      url,
+      { contentType: file.contentType, filename: file.filename, file: file.data.toString("base64") },
+      { baseId: resolvedBaseId, tableId: tableName }
+    );
+
+    await this.invalidateTable(tableName, resolvedBaseId);
+
+    // The response keys fields by ID; there is only the one we uploaded to
+    const fields = result?.fields || {};
+    return fields[fieldName] || Object.values(fields)[0] || [];
   }
 
   /**
    * Deletes one or more records from a table.
    *
+   * Unless `options.backup` is false, the records are fetched first and
+   * written to a tombstone file under the data directory, so they can be
+   * re-created with restore-deleted (no file is written when none of the
+   * records exist). IDs are then sent in chunks of 10 with bounded
+   * concurrency.
+   *
    * @param tableName - Table name or table ID
    * @param recordIds - Array of record IDs to delete
    * @param baseId - Override default base ID
-   * @returns Confirmation of deleted records
+   * @param options - Batch and backup settings
+   * @returns Per-record report (results[i] matches recordIds[i]) and tombstone path
+   *
+   * @invalidates cached records of the table
+   *
+   * @example
+   * const { tombstone } = await client.deleteRecords("Products", ["recABC123", "recDEF456"]);
+   */
+  async deleteRecords(
+    tableName: string,
+    recordIds: string[],
+    baseId?: string,
+    options?: DeleteOptions
+  ): Promise<DeleteReport> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+
+    let tombstone: string | undefined;
+    let records: AirtableRecord[] = [];
+    if ((options?.backup !== false || this.isJournalEnabled()) && recordIds.length) {
+      records = await this.fetchRecordsById(tableName, recordIds, resolvedBaseId);
+    }
+    // Nothing fetched means none of the IDs exist; an empty tombstone would restore nothing
+    if (options?.backup !== false && records.length) {
+      tombstone = writeTombstone(join(this.getDataDir(), "tombstones"), {
+        version: 1,
+        deletedAt: new Date().toISOString(),
+        baseId: resolvedBaseId,
+        table: tableName,
+        records,
+      });
+    }
+
+    const report = await runBatches(
+      recordIds,
+      async (part) => {
+        await this.callTool("delete_records", {
+          baseId: resolvedBaseId,
+          tableId: await this.resolveTableId(tableName, resolvedBaseId),
+          recordIds: part,
+        });
+        return part.map((id) => ({ ok: true, id }));
+      },
+      options
+    );
+    await this.invalidateTable(tableName, resolvedBaseId);
+    const before = new Map(records.map((r) => [r.id, r.fields]));
+    await this.journal("delete", tableName, resolvedBaseId, report.results
+      .filter((r) => r.ok && r.id)
+      .map((r) => ({ recordId: r.id!, before: before.get(r.id!) ?? null, after: null })), options);
+    return { ...report, ...(tombstone ? { tombstone } : {}) };
+  }
+
+  /**
+   * Finds every record matching a filter formula, bypassing the cache.
+   *
+   * @param tableName - Table name or table ID
+   * @param filterFormula - Airtable formula selecting records
+   * @param options - Base/view and optional field projection
+   * @returns All matching records
+   */
+  async matchRecords(
+    tableName: string,
+    filterFormula: FilterInput,
+    options?: { baseId?: string; view?: string; fields?: string[] }
+  ): Promise<AirtableRecord[]> {
+    const { records } = await this.listAllRecords(tableName, {
+      ...options,
+      filterFormula,
+      bypassCache: true,
+    });
+    return records;
+  }
+
+  /**
+   * Sets the same field values on every record matching a formula.
    *
-   * @invalidates records/{tableName}/*
+   * Matches are fetched fresh and written through updateRecords (validated,
+   * 10 per request).
+   *
+   * @param tableName - Table name or table ID
+   * @param filterFormula - Airtable formula selecting records
+   * @param fields - Field values to set on every match
+   * @param options - Base/view, `max` safety cap, batch and validation settings
+   * @returns Per-record report plus the number matched
+   * @throws {ValidationError} If more than `options.max` records match
+   *
+   * @invalidates cached records of the table
    *
    * @example
-   * await client.deleteRecords("Products", ["recABC123", "recDEF456"]);
+   * await client.updateWhere("Products", "{Status}='Reserved'", { Status: "In Stock" }, { max: 50 });
    */
-  async deleteRecords(tableName: string, recordIds: string[], baseId?: string): Promise<any> {
-    const result = await this.callTool("delete_records", {
-      baseId: baseId || this.config.defaultBase,
-      tableId: tableName,
-      recordIds: recordIds,
+  async updateWhere(
+    tableName: string,
+    filterFormula: FilterInput,
+    fields: Record<string, any>,
+    options?: WhereOptions & WriteOptions
+  ): Promise<BatchReport & { matched: number }> {
+    const matches = await this.matchRecords(tableName, filterFormula, {
+      baseId: options?.baseId,
+      view: options?.view,
+      fields: Object.keys(fields),
     });
-    // Invalidate records cache for this table
-    cache.invalidatePattern(new RegExp(`^records.*table=${tableName}`));
+    this.enforceMax(matches.length, options?.max, filterFormula);
+    const report = await this.updateRecords(
+      tableName,
+      matches.map((r) => ({ id: r.id, fields })),
+      options?.baseId,
+      options
+    );
+    return { matched: matches.length, ...report };
+  }
+
+  /**
+   * Deletes every record matching a formula (with a tombstone backup).
+   *
+   * @param tableName - Table name or table ID
+   * @param filterFormula - Airtable formula selecting records
+   * @param options - Base/view, `max` safety cap, batch and backup settings
+   * @returns Per-record report, tombstone path and the number matched
+   * @throws {ValidationError} If more than `options.max` records match
+   *
+   * @invalidates cached records of the table
+   *
+   * @example
+   * await client.deleteWhere("Orders", "{Status}='Test'", { max: 20 });
+   */
+  async deleteWhere(
+    tableName: string,
+    filterFormula: FilterInput,
+    options?: WhereOptions & DeleteOptions
+  ): Promise<DeleteReport & { matched: number }> {
+    const matches = await this.matchRecords(tableName, filterFormula, {
+      baseId: options?.baseId,
+      view: options?.view,
+    });
+    this.enforceMax(matches.length, options?.max, filterFormula);
+    const report = await this.deleteRecords(
+      tableName,
+      matches.map((r) => r.id),
+      options?.baseId,
+      options
+    );
+    return { matched: matches.length, ...report };
+  }
+
+  private enforceMax(matched: number, max: number | undefined, filterFormula: FilterInput): void {
+    if (max !== undefined && matched > max) {
+      throw new ValidationError(
+        `${matched} records match ${filterFormula}, more than the safety cap of ${max}. ` +
+        "Narrow the filter or raise --max."
+      );
+    }
+  }
+
+  /**
+   * Updates records that match on the merge fields and creates the rest.
+   *
+   * Existing records are looked up fresh (bypassing the cache) with a filter
+   * formula on the merge fields. An input record that matches more than one
+   * existing record, has a blank merge field, or repeats the merge key of an
+   * earlier input record (which would create duplicates or write one record
+   * twice) is reported as failed; the first record with a key is kept.
+   * With `options.dryRun`, the lookup still runs but nothing is written;
+   * the report lists planned creates/updates plus the exact payloads.
+   *
+   * @param tableName - Table name or table ID
+   * @param records - Field values for each record
+   * @param options - Merge fields, batch and validation settings
+   * @param options.mergeOn - Fields whose combined values identify a record
+   * @param options.dryRun - Report the plan without writing
+   * @param baseId - Override default base ID
+   * @returns Which input records were created, updated or failed
+   *
+   * @invalidates cached records of the table
+   *
+   * @example
+   * const report = await client.upsertRecords("Products", [
+   *   { "SerialNumber": "L9EXXX12345", "Status": "Sold" },
+   * ], { mergeOn: ["SerialNumber"] });
+   */
+  async upsertRecords(
+    tableName: string,
+    records: Array<Record<string, any>>,
+    options: UpsertOptions,
+    baseId?: string
+  ): Promise<UpsertReport> {
+    const { mergeOn } = options;
+    if (!mergeOn.length) {
+      throw new ValidationError("upsertRecords requires at least one mergeOn field");
+    }
+
+    const report: UpsertReport = { total: records.length, created: [], updated: [], failed: [] };
+    const keys = records.map((fields) => mergeKey(fields, mergeOn));
+
+    // Only the first input record per key is written
+    const firstIndex = new Map<string, number>();
+    keys.forEach((key, index) => {
+      if (key !== undefined && !firstIndex.has(key)) firstIndex.set(key, index);
+    });
+
+    // Look up existing records matching any input key
+    const existing = new Map<string, string[]>();
+    const lookups = records.filter((_, i) => keys[i] !== undefined && firstIndex.get(keys[i]!) === i);
+    for (let i = 0; i < lookups.length; i += LOOKUP_FORMULA_CHUNK) {
+      const clauses = lookups.slice(i, i + LOOKUP_FORMULA_CHUNK).map((fields) =>
+        `AND(${mergeOn.map((name) => `${fieldRef(name)}=${literal(fields[name])}`).join(",")})`
+      );
+      const { records: matches } = await this.listAllRecords(tableName, {
+        baseId,
+        filterFormula: `OR(${clauses.join(",")})`,
+        fields: mergeOn,
+        bypassCache: true,
+      });
+      for (const match of matches) {
+        const key = mergeKey(match.fields, mergeOn);
+        if (key === undefined) continue;
+        const ids = existing.get(key) || [];
+        if (!ids.includes(match.id)) ids.push(match.id);
+        existing.set(key, ids);
+      }
+    }
+
+    const toCreate: Array<{ index: number; fields: Record<string, any> }> = [];
+    const toUpdate: Array<{ index: number; id: string; fields: Record<string, any> }> = [];
+    records.forEach((fields, index) => {
+      const key = keys[index];
+      if (key === undefined) {
+        report.failed.push({ index, error: `Missing value for merge field(s): ${mergeOn.join(", ")}` });
+        return;
+      }
+      if (firstIndex.get(key) !== index) {
+        report.failed.push({ index, error: `Duplicate merge key: an earlier record has the same ${mergeOn.join(", ")}` });
+        return;
+      }
+      const ids = existing.get(key) || [];
+      if (ids.length > 1) {
+        report.failed.push({ index, error: `Ambiguous match: ${ids.length} existing records (${ids.join(", ")})` });
+      } else if (ids.length === 1) {
+        toUpdate.push({ index, id: ids[0], fields });
+      } else {
+        toCreate.push({ index, fields });
+      }
+    });
+
+    if (options.dryRun) {
+      report.dryRun = true;
+      report.preview = {};
+      report.updated = toUpdate.map(({ index, id }) => ({ index, id }));
+      report.created = toCreate.map(({ index }) => ({ index }));
+      if (toUpdate.length) {
+        report.preview.update = await this.previewUpdate(
+          tableName,
+          toUpdate.map(({ id, fields }) => ({ id, fields })),
+          baseId
+        );
+      }
+      if (toCreate.length) {
+        report.preview.create = await this.previewCreate(tableName, toCreate.map(({ fields }) => fields), baseId);
+      }
+      report.failed.sort((a, b) => a.index - b.index);
+      return report;
+    }
+
+    if (toUpdate.length) {
+      const result = await this.updateRecords(
+        tableName,
+        toUpdate.map(({ id, fields }) => ({ id, fields })),
+        baseId,
+        options
+      );
+      result.results.forEach((r, i) => {
+        const { index, id } = toUpdate[i];
+        if (r.ok) report.updated.push({ index, id });
+        else report.failed.push({ index, error: r.error || "Update failed" });
+      });
+    }
+
+    if (toCreate.length) {
+      const result = await this.createRecords(
+        tableName,
+        toCreate.map(({ fields }) => fields),
+        baseId,
+        options
+      );
+      result.results.forEach((r, i) => {
+        const { index } = toCreate[i];
+        if (r.ok) report.created.push({ index, id: r.id });
+        else report.failed.push({ index, error: r.error || "Create failed" });
+      });
+    }
+
+    report.failed.sort((a, b) => a.index - b.index);
+    return report;
+  }
+
+  // ============================================
+  // SCHEMA OPERATIONS
+  // ============================================
+
+  /**
+   * Creates a table with an initial set of fields.
+   *
+   * The first field becomes the primary field and must be a type Airtable
+   * allows as primary (e.g. singleLineText).
+   *
+   * @param name - New table name
+   * @param fields - Field definitions (at least one)
+   * @param options - Description and base override
+   * @returns Created table schema
+   *
+   * @invalidates schema of the base
+   *
+   * @example
+   * await client.createTable("Returns", [
+   *   { name: "RMA", type: "singleLineText" },
+   *   { name: "Status", type: "singleSelect", options: { choices: [{ name: "Open" }, { name: "Closed" }] } },
+   * ], { description: "Customer returns tracking" });
+   */
+  async createTable(
+    name: string,
+    fields: FieldSpec[],
+    options?: { description?: string; baseId?: string }
+  ): Promise<TableSchema> {
+    const resolvedBaseId = await this.resolveBaseId(options?.baseId);
+    const result = await this.callTool("create_table", {
+      baseId: resolvedBaseId,
+      name,
+      ...(options?.description ? { description: options.description } : {}),
+      fields,
+    });
+    this.invalidateSchema(resolvedBaseId);
+    return result;
+  }
+
+  /**
+   * Renames a table or changes its description.
+   *
+   * @param tableName - Table name or table ID
+   * @param changes - New name and/or description
+   * @param baseId - Override default base ID
+   * @returns Updated table schema
+   *
+   * @invalidates schema of the base
+   *
+   * @example
+   * await client.updateTable("Returns", { name: "Returns (RMA)" });
+   */
+  async updateTable(
+    tableName: string,
+    changes: { name?: string; description?: string },
+    baseId?: string
+  ): Promise<TableSchema> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+    const tableId = await this.resolveTableId(tableName, resolvedBaseId);
+    const result = await this.callTool("update_table", {
+      baseId: resolvedBaseId,
+      tableId,
+      ...changes,
+    });
+    this.invalidateSchema(resolvedBaseId);
+    return result;
+  }
+
+  /**
+   * Adds a field to an existing table.
+   *
+   * @param tableName - Table name or table ID
+   * @param field - Field definition (name, type, description, options)
+   * @param baseId - Override default base ID
+   * @returns Created field schema
+   *
+   * @invalidates schema of the base, cached records of the table
+   *
+   * @example
+   * await client.createField("Products", {
+   *   name: "Warranty Expires",
+   *   type: "date",
+   *   options: { dateFormat: { name: "iso" } }
+   * });
+   */
+  async createField(tableName: string, field: FieldSpec, baseId?: string): Promise<FieldSchema> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+    const tableId = await this.resolveTableId(tableName, resolvedBaseId);
+    const result = await this.callTool("create_field", {
+      baseId: resolvedBaseId,
+      tableId,
+      ...field,
+    });
+    this.invalidateSchema(resolvedBaseId, tableId);
     return result;
   }
 
+  /**
+   * Updates a field's name, description or options.
+   *
+   * Airtable only allows some option changes after creation (e.g. adding
+   * select choices); unsupported changes fail at the API.
+   *
+   * @param tableName - Table name or table ID
+   * @param fieldName - Field name or field ID
+   * @param changes - New name, description and/or options
+   * @param baseId - Override default base ID
+   * @returns Updated field schema
+   * @throws {NotFoundError} If the field does not exist
+   *
+   * @invalidates schema of the base, cached records of the table
+   *
+   * @example
+   * await client.updateField("Products", "Notes", { description: "Internal only" });
+   */
+  async updateField(
+    tableName: string,
+    fieldName: string,
+    changes: { name?: string; description?: string; options?: Record<string, any> },
+    baseId?: string
+  ): Promise<FieldSchema> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+    const tableId = await this.resolveTableId(tableName, resolvedBaseId);
+    const schema: TableSchema = await this.describeTable(tableId, resolvedBaseId);
+    const field = findField(schema, fieldName);
+    if (!field) {
+      throw new NotFoundError(`Field "${fieldName}" not found in table "${tableName}"`, {
+        context: { baseId: resolvedBaseId, tableId },
+      });
+    }
+
+    const result = await this.callTool("update_field", {
+      baseId: resolvedBaseId,
+      tableId,
+      fieldId: field.id,
+      ...changes,
+    });
+    this.invalidateSchema(resolvedBaseId, tableId);
+    return result;
+  }
+
+  /**
+   * Drops cached schema for a base after a schema change. Field changes also
+   * pass the table, since cached records carry the old field names.
+   */
+  private invalidateSchema(baseId: string, tableId?: string): void {
+    this.invalidateTags(tableId ? [schemaTag(baseId), tableTag(baseId, tableId)] : [schemaTag(baseId)]);
+    this.tableIdCache.delete(baseId);
+    void this.daemonConnection().then((daemon) => daemon?.request("clearTableIds", { baseId })).catch(() => {});
+  }
+
+  /**
+   * Evicts every cached list page, search and record of a table after a
+   * write, and of the tables linked to or from it, whose inverse links,
+   * lookups and rollups show the written records. Table names are resolved
+   * to IDs so entries match however the table was named when they were cached.
+   */
+  private async invalidateTable(tableName: string, baseId: string): Promise<void> {
+    // Batch writes report per-record failures instead of throwing; fall back
+    // to the given name rather than turning that report into an error
+    const tableId = await this.resolveTableId(tableName, baseId).catch(() => tableName);
+    const related = await this.linkedTables(tableId, baseId).catch(() => []);
+    this.invalidateTags([tableId, ...related].map((id) => tableTag(baseId, id)));
+  }
+
+  /**
+   * IDs of the tables a table links to and the tables linking to it, from
+   * the (cached) schema.
+   */
+  private async linkedTables(tableId: string, baseId: string): Promise<string[]> {
+    const { tables = [] } = await this.listTables(baseId);
+    const linked = new Set<string>();
+    for (const table of tables as TableSchema[]) {
+      // list_tables may omit field detail for other tables; this one's links matter most
+      const fields = table.id === tableId && !table.fields?.length
+        ? ((await this.describeTable(tableId, baseId)) as TableSchema).fields
+        : table.fields || [];
+      for (const field of fields) {
+        const target = field.type === "multipleRecordLinks" ? field.options?.linkedTableId : undefined;
+        if (!target) continue;
+        if (table.id === tableId && target !== tableId) linked.add(target);
+        else if (target === tableId && table.id !== tableId) linked.add(table.id);
+      }
+    }
+    return [...linked];
+  }
+
+  private invalidateTags(tags: string[]): void {
+    for (const tag of tags) {
+      cache.invalidatePattern(tagPattern(tag));
+    }
+  }
+
+  // ============================================
+  // JOURNAL
+  // ============================================
+
+  /**
+   * Whether writes are journaled: config `journal`, overridden by
+   * AIRTABLE_JOURNAL=on|off.
+   */
+  isJournalEnabled(): boolean {
+    const env = process.env.AIRTABLE_JOURNAL;
+    return env ? env === "on" : this.config.journal === true;
+  }
+
+  /**
+   * Path of the journal file (<dataDir>/journal.jsonl).
+   */
+  getJournalPath(): string {
+    return join(this.getDataDir(), "journal.jsonl");
+  }
+
+  /**
+   * Fresh fields of the given records, for before-snapshots.
+   */
+  private async snapshot(tableName: string, recordIds: string[], baseId: string): Promise<Map<string, Fields>> {
+    const records = await this.fetchRecordsById(tableName, recordIds, baseId);
+    return new Map(records.map((r) => [r.id, r.fields]));
+  }
+
+  /**
+   * Records one write as a journal transaction (no-op unless journaling).
+   */
+  private async journal(
+    op: JournalOp,
+    tableName: string,
+    baseId: string,
+    changes: Array<Pick<JournalEntry, "recordId" | "before" | "after">>,
+    options?: JournalOptions
+  ): Promise<void> {
+    if (!this.isJournalEnabled() || !changes.length) return;
+    const tableId = await this.resolveTableId(tableName, baseId).catch(() => tableName);
+    const txn = newTxnId();
+    const at = new Date().toISOString();
+    appendJournal(this.getJournalPath(), changes.map((change) => ({
+      txn,
+      at,
+      op,
+      baseId,
+      tableId,
+      table: tableName,
+      ...change,
+      ...(options?.undoOf ? { undoOf: options.undoOf } : {}),
+    })));
+  }
+
+  // ============================================
+  // COMMENTS
+  // ============================================
+
+  /**
+   * Whether the connected MCP server offers a tool (tool list fetched once).
+   */
+  private async hasTool(name: string): Promise<boolean> {
+    if (!this.toolNames) {
+      this.toolNames = this.listTools().then((tools) => new Set(tools.map((t: { name: string }) => t.name)));
+      this.toolNames.catch(() => { this.toolNames = undefined; });
+    }
+    return (await this.toolNames).has(name);
+  }
+
+  /**
+   * Runs a comment operation through the MCP tool when the server has one,
+   * otherwise through the REST API.
+   */
+  private async commentCall(
+    tool: string,
+    args: Record<string, any>,
+    rest: { method: string; path: string; body?: unknown }
+  ): Promise<any> {
+    if (await this.hasTool(tool)) {
+      return this.callTool(tool, args);
+    }
+    return this.callRest(rest.method, `${AIRTABLE_API_URL}${rest.path}`, rest.body, {
+      baseId: args.baseId,
+      tableId: args.tableId,
+      tool,
+    });
+  }
+
+  private async commentsPath(tableName: string, recordId: string, baseId: string): Promise<string> {
+    const tableId = await this.resolveTableId(tableName, baseId);
+    return `/${baseId}/${tableId}/${recordId}/comments`;
+  }
+
+  /**
+   * Lists one page of comments on a record, newest first.
+   *
+   * Each comment carries `renderedText`, with @-mentions shown as names.
+   * Uses the MCP server's comment tool if it has one, otherwise the REST API.
+   *
+   * @param tableName - Table name or table ID
+   * @param recordId - Record ID
+   * @param options - Base, page size (max 100) and offset cursor
+   * @returns Page of comments with optional offset
+   *
+   * @cached TTL: 5 minutes
+   *
+   * @example
+   * const { comments } = await client.listComments("Products", "recABC123");
+   * console.log(comments[0].renderedText); // "Shipped, over to @Sam"
+   */
+  async listComments(
+    tableName: string,
+    recordId: string,
+    options?: { baseId?: string; pageSize?: number; offset?: string }
+  ): Promise<CommentPage> {
+    const resolvedBaseId = await this.resolveBaseId(options?.baseId);
+    const tableId = await this.resolveTableId(tableName, resolvedBaseId);
+    const cacheKey = taggedKey("comments", {
+      baseId: resolvedBaseId,
+      tableId,
+      record: recordId,
+      pageSize: options?.pageSize,
+      offset: options?.offset,
+    }, [commentsTag(resolvedBaseId, tableId, recordId)]);
+
+    return cache.getOrFetch(
+      cacheKey,
+      async () => {
+        const query = new URLSearchParams();
+        if (options?.pageSize) query.set("pageSize", String(options.pageSize));
+        if (options?.offset) query.set("offset", options.offset);
+        const path = await this.commentsPath(tableId, recordId, resolvedBaseId);
+        const qs = query.toString();
+        return toCommentPage(await this.commentCall(
+          "list_comments",
+          { baseId: resolvedBaseId, tableId, recordId, pageSize: options?.pageSize, offset: options?.offset },
+          { method: "GET", path: qs ? `${path}?${qs}` : path }
+        ));
+      },
+      { ttl: TTL.FIVE_MINUTES, bypassCache: this.cacheDisabled }
+    );
+  }
+
+  /**
+   * Lists every comment on a record, following offsets.
+   *
+   * @param tableName - Table name or table ID
+   * @param recordId - Record ID
+   * @param baseId - Override default base ID
+   * @returns All comments, newest first
+   */
+  async listAllComments(tableName: string, recordId: string, baseId?: string): Promise<RecordComment[]> {
+    const comments: RecordComment[] = [];
+    let offset: string | undefined;
+    do {
+      const page = await this.listComments(tableName, recordId, { baseId, pageSize: 100, offset });
+      comments.push(...page.comments);
+      offset = page.offset;
+    } while (offset);
+    return comments;
+  }
+
+  /**
+   * Adds a comment to a record.
+   *
+   * Mention users with `@[usrXXXXXXXXXXXXXX]` in the text.
+   *
+   * @param tableName - Table name or table ID
+   * @param recordId - Record ID
+   * @param text - Comment text
+   * @param baseId - Override default base ID
+   * @returns The created comment
+   *
+   * @invalidates comments of the record
+   *
+   * @example
+   * await client.createComment("Products", "recABC123", "Checked serial, over to @[usrA1B2C3D4E5F6G7H8]");
+   */
+  async createComment(tableName: string, recordId: string, text: string, baseId?: string): Promise<RecordComment> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+    const tableId = await this.resolveTableId(tableName, resolvedBaseId);
+    const result = await this.commentCall(
+      "create_comment",
+      { baseId: resolvedBaseId, tableId, recordId, text },
+      { method: "POST", path: await this.commentsPath(tableId, recordId, resolvedBaseId), body: { text } }
+    );
+    this.invalidateComments(resolvedBaseId, tableId, recordId);
+    return toRecordComment(result);
+  }
+
+  /**
+   * Edits a comment. Airtable only allows editing your own comments.
+   *
+   * @param tableName - Table name or table ID
+   * @param recordId - Record ID
+   * @param commentId - Comment ID (e.g. "comXXXXXX")
+   * @param text - New comment text
+   * @param baseId - Override default base ID
+   * @returns The updated comment
+   *
+   * @invalidates comments of the record
+   */
+  async updateComment(
+    tableName: string,
+    recordId: string,
+    commentId: string,
+    text: string,
+    baseId?: string
+  ): Promise<RecordComment> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+    const tableId = await this.resolveTableId(tableName, resolvedBaseId);
+    const path = await this.commentsPath(tableId, recordId, resolvedBaseId);
+    const result = await this.commentCall(
+      "update_comment",
+      { baseId: resolvedBaseId, tableId, recordId, commentId, text },
+      { method: "PATCH", path: `${path}/${commentId}`, body: { text } }
+    );
+    this.invalidateComments(resolvedBaseId, tableId, recordId);
+    return toRecordComment(result);
+  }
+
+  /**
+   * Deletes a comment. Airtable only allows deleting your own comments.
+   *
+   * @param tableName - Table name or table ID
+   * @param recordId - Record ID
+   * @param commentId - Comment ID
+   * @param baseId - Override default base ID
+   * @returns `{ id, deleted: true }`
+   *
+   * @invalidates comments of the record
+   */
+  async deleteComment(
+    tableName: string,
+    recordId: string,
+    commentId: string,
+    baseId?: string
+  ): Promise<{ id: string; deleted: boolean }> {
+    const resolvedBaseId = await this.resolveBaseId(baseId);
+    const tableId = await this.resolveTableId(tableName, resolvedBaseId);
+    const path = await this.commentsPath(tableId, recordId, resolvedBaseId);
+    const result = await this.commentCall(
+      "delete_comment",
+      { baseId: resolvedBaseId, tableId, recordId, commentId },
+      { method: "DELETE", path: `${path}/${commentId}` }
+    );
+    this.invalidateComments(resolvedBaseId, tableId, recordId);
+    return { id: result?.id || commentId, deleted: result?.deleted ?? true };
+  }
+
+  private invalidateComments(baseId: string, tableId: string, recordId: string): void {
+    this.invalidateTags([commentsTag(baseId, tableId, recordId)]);
+  }
+
   // ============================================
   // UTILITY
   // ============================================
 
   /**
-   * Gets the configured default base ID.
+   * Gets the local data directory (tombstones and other local state).
+   *
+   * @returns config.json `dataDir`, or data/ next to config.json
+   */
+  getDataDir(): string {
+    return this.config.dataDir || join(__dirname, "..", "data");
+  }
+
+  /**
+   * Daemon settings with defaults applied.
+   */
+  getDaemonConfig(): Required<DaemonConfig> {
+    const socketPath = this.config.daemon?.socketPath || join(this.getDataDir(), "daemon.sock");
+    return {
+      enabled: this.config.daemon?.enabled ?? true,
+      idleMinutes: this.config.daemon?.idleMinutes ?? DEFAULT_DAEMON_IDLE_MINUTES,
+      // One daemon per profile, since profiles may use different keys and servers
+      socketPath: this.profile ? socketPath.replace(/(\.sock)?$/, `-${this.profile}$1`) : socketPath,
+    };
+  }
+
+  /**
+   * Name of the active profile, if any.
+   */
+  getProfile(): string | undefined {
+    return this.profile;
+  }
+
+  /**
+   * Profiles defined in config.json.
+   * @returns Name, base and API key variable of each profile, marking the active one
+   */
+  listProfiles(): Array<{ name: string; base: string; apiKeyEnv: string; active: boolean }> {
+    const config: MCPConfig = JSON.parse(readFileSync(join(__dirname, "..", "config.json"), "utf-8"));
+    return Object.entries(config.profiles || {}).map(([name, profile]) => ({
+      name,
+      base: profile.base,
+      apiKeyEnv: profile.apiKeyEnv || config.apiKeyEnv || "AIRTABLE_API_KEY",
+      active: name === this.profile,
+    }));
+  }
+
+  /**
+   * Gets the configured default base.
    *
-   * @returns Airtable base ID from config.json
+   * @returns Base ID or name from config.json (or the active profile)
    */
   getDefaultBase(): string {
     return this.config.defaultBase;
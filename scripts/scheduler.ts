@@ -0,0 +1,125 @@
+/**
+ * Request Scheduler
+ *
+ * Throttles MCP tool calls per Airtable base and retries failures that are
+ * worth retrying. Airtable allows 5 requests/second/base and answers 429 when
+ * that is exceeded; transient 5xx and network errors are also retried, with
+ * jittered exponential backoff.
+ */
+
+import { toAirtableError } from "./errors.js";
+
+export interface RetryConfig {
+  /** Retries after the first attempt (default: 4) */
+  maxRetries?: number;
+  /** First backoff delay in ms, doubled per attempt (default: 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in ms (default: 10000) */
+  maxDelayMs?: number;
+  /** Minimum wait after a 429 in ms; Airtable asks for 30s (default: 30000) */
+  rateLimitDelayMs?: number;
+}
+
+export interface RateLimitConfig {
+  /** Requests per second per base (default: 5) */
+  requestsPerSecond?: number;
+}
+
+export interface RequestStats {
+  requests: number;
+  retries: number;
+  /** Total ms spent waiting for a throttle slot */
+  throttledMs: number;
+}
+
+export type ErrorClass = "rate_limited" | "transient" | "fatal";
+
+/**
+ * Classifies a failure from an MCP tool call or the transport.
+ */
+export function classifyError(error: unknown): ErrorClass {
+  const parsed = toAirtableError(error);
+  if (parsed.code === "RATE_LIMITED") return "rate_limited";
+  return parsed.retryable ? "transient" : "fatal";
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class RequestScheduler {
+  private retry: Required<RetryConfig>;
+  private intervalMs: number;
+  private nextSlot: Map<string, number> = new Map(); // base key -> earliest start time
+  private stats: RequestStats = { requests: 0, retries: 0, throttledMs: 0 };
+
+  constructor(retry?: RetryConfig, rateLimit?: RateLimitConfig) {
+    this.retry = {
+      maxRetries: retry?.maxRetries ?? 4,
+      baseDelayMs: retry?.baseDelayMs ?? 500,
+      maxDelayMs: retry?.maxDelayMs ?? 10000,
+      rateLimitDelayMs: retry?.rateLimitDelayMs ?? 30000,
+    };
+    this.intervalMs = 1000 / (rateLimit?.requestsPerSecond || 5);
+  }
+
+  /**
+   * Runs a request in its base's throttle lane, retrying retryable failures.
+   *
+   * Non-idempotent requests (creates) are only retried on rate limits, where
+   * Airtable guarantees the request was not applied.
+   *
+   * @param key - Throttle lane, normally the base ID
+   * @param fn - The request; throw to signal failure
+   * @param options.idempotent - Whether transient failures may be retried (default: true)
+   * @returns The request's result
+   * @throws The last error once retries are exhausted or the error is fatal
+   */
+  async run<T>(key: string, fn: () => Promise<T>, options?: { idempotent?: boolean }): Promise<T> {
+    const idempotent = options?.idempotent ?? true;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(key);
+      this.stats.requests++;
+      try {
+        return await fn();
+      } catch (error) {
+        const kind = classifyError(error);
+        const retryable = kind === "rate_limited" || (kind === "transient" && idempotent);
+        if (!retryable || attempt >= this.retry.maxRetries) throw error;
+
+        this.stats.retries++;
+        await sleep(this.backoff(attempt, kind));
+      }
+    }
+  }
+
+  /**
+   * Returns request, retry and throttle counters since construction.
+   */
+  getStats(): RequestStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Waits for the next free slot in a lane.
+   */
+  private async acquire(key: string): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(key) || 0);
+    this.nextSlot.set(key, slot + this.intervalMs);
+    if (slot > now) {
+      this.stats.throttledMs += slot - now;
+      await sleep(slot - now);
+    }
+  }
+
+  /**
+   * Full-jitter exponential backoff; rate limits wait at least rateLimitDelayMs.
+   */
+  private backoff(attempt: number, kind: ErrorClass): number {
+    const cap = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    const delay = Math.random() * cap;
+    return kind === "rate_limited" ? Math.max(delay, this.retry.rateLimitDelayMs) : delay;
+  }
+}
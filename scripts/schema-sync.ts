@@ -0,0 +1,319 @@
+/**
+ * Schema as Code
+ *
+ * Snapshots a base's tables and fields into a versionable file, diffs such a
+ * file against the live base, and applies the changes the API supports
+ * (new tables, new fields, renames, descriptions). Removals, type changes and
+ * computed fields (formulas, rollups, lookups...) cannot be made through the
+ * Airtable API and are reported for manual action.
+ */
+
+import type { AirtableMCPClient } from "./mcp-client.js";
+import { READ_ONLY_FIELD_TYPES, type FieldSchema, type TableSchema } from "./schema.js";
+
+export interface SnapshotField {
+  id?: string;
+  name: string;
+  type: string;
+  description?: string;
+  options?: Record<string, any>;
+}
+
+export interface SnapshotTable {
+  id?: string;
+  name: string;
+  description?: string;
+  /** Name of the primary field */
+  primaryField?: string;
+  fields: SnapshotField[];
+}
+
+export interface BaseSnapshot {
+  baseId: string;
+  tables: SnapshotTable[];
+}
+
+export type SchemaChangeKind =
+  | "table_added"
+  | "table_removed"
+  | "table_renamed"
+  | "table_description_changed"
+  | "field_added"
+  | "field_removed"
+  | "field_renamed"
+  | "field_retyped"
+  | "field_description_changed"
+  | "field_choices_changed";
+
+/**
+ * One difference between the desired file and the live base.
+ * "added" means present in the file but not live; "removed" the reverse.
+ */
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  /** Table name (desired name if the table exists in the file) */
+  table: string;
+  tableId?: string;
+  field?: string;
+  fieldId?: string;
+  from?: any;
+  to?: any;
+  /** Whether schema-apply can make this change through the API */
+  applicable: boolean;
+  /** Why an otherwise applicable kind of change has to be made by hand */
+  reason?: string;
+}
+
+export interface ApplyResult {
+  change: SchemaChange;
+  ok: boolean;
+  error?: string;
+}
+
+const APPLICABLE_KINDS = new Set<SchemaChangeKind>([
+  "table_added",
+  "table_renamed",
+  "table_description_changed",
+  "field_added",
+  "field_renamed",
+  "field_description_changed",
+]);
+
+/**
+ * Option keys Airtable reports but does not accept when creating a field
+ * (link fields' inverse side, computed results).
+ */
+const READ_ONLY_OPTION_KEYS = ["inverseLinkFieldId", "isReversed", "isValid", "referencedFieldIds", "result"];
+
+function toSnapshotField(field: FieldSchema): SnapshotField {
+  return {
+    id: field.id,
+    name: field.name,
+    type: field.type,
+    ...(field.description ? { description: field.description } : {}),
+    ...(field.options && Object.keys(field.options).length ? { options: field.options } : {}),
+  };
+}
+
+/**
+ * A snapshot field as a create request: without its ID and the option keys
+ * only Airtable sets (select choices keep just their names).
+ */
+function creatableField({ id: _id, options: snapshotOptions, ...field }: SnapshotField): SnapshotField {
+  if (!snapshotOptions) return field;
+  const options = { ...snapshotOptions };
+  for (const key of READ_ONLY_OPTION_KEYS) delete options[key];
+  if (Array.isArray(options.choices)) {
+    options.choices = options.choices.map((c: { name: string }) => ({ name: c.name }));
+  }
+  return Object.keys(options).length ? { ...field, options } : field;
+}
+
+/**
+ * Reads every table and field of a base into a snapshot. Always reads the
+ * live base, bypassing the schema cache.
+ *
+ * @param client - Connected Airtable client
+ * @param baseId - Base to snapshot (defaults to the configured base)
+ * @returns Snapshot ordered as Airtable lists tables and fields
+ */
+export async function pullSchema(client: AirtableMCPClient, baseId?: string): Promise<BaseSnapshot> {
+  const resolvedBaseId = await client.resolveBaseId(baseId);
+  const { tables = [] } = await client.listTables(resolvedBaseId, { bypassCache: true });
+
+  const snapshot: BaseSnapshot = { baseId: resolvedBaseId, tables: [] };
+  for (const listed of tables as TableSchema[]) {
+    // list_tables may omit field detail; describe_table always has it
+    const table: TableSchema = listed.fields?.length
+      ? listed
+      : await client.describeTable(listed.id, resolvedBaseId, { bypassCache: true });
+    const primary = table.fields.find((f) => f.id === table.primaryFieldId);
+    snapshot.tables.push({
+      id: table.id,
+      name: table.name,
+      ...(table.description ? { description: table.description } : {}),
+      ...(primary ? { primaryField: primary.name } : {}),
+      fields: table.fields.map(toSnapshotField),
+    });
+  }
+  return snapshot;
+}
+
+/**
+ * Matches items by ID first, then by name.
+ */
+function matchBy<T extends { id?: string; name: string }>(item: T, candidates: T[]): T | undefined {
+  return (item.id && candidates.find((c) => c.id === item.id)) || candidates.find((c) => c.name === item.name);
+}
+
+function choiceNames(field: SnapshotField): string[] {
+  return (field.options?.choices || []).map((c: { name: string }) => c.name).sort();
+}
+
+function change(partial: Omit<SchemaChange, "applicable">): SchemaChange {
+  return { ...partial, applicable: APPLICABLE_KINDS.has(partial.kind) };
+}
+
+/**
+ * A field_added change; computed fields are listed but left for manual action.
+ */
+function fieldAdded(tableRef: { table: string; tableId?: string }, field: SnapshotField): SchemaChange {
+  if (READ_ONLY_FIELD_TYPES.has(field.type)) {
+    return {
+      kind: "field_added",
+      ...tableRef,
+      field: field.name,
+      to: field,
+      applicable: false,
+      reason: `${field.type} fields cannot be created through the API`,
+    };
+  }
+  return change({ kind: "field_added", ...tableRef, field: field.name, to: field });
+}
+
+/**
+ * Compares a desired snapshot (from a file) with the live snapshot.
+ *
+ * Tables and fields are matched by ID when the file has one, otherwise by
+ * name; a changed name on a matched ID is a rename.
+ *
+ * @param desired - Snapshot from the versioned file
+ * @param live - Snapshot pulled from the base
+ * @returns Changes needed to make live match desired
+ */
+export function diffSchema(desired: BaseSnapshot, live: BaseSnapshot): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const matchedLive = new Set<SnapshotTable>();
+
+  for (const want of desired.tables) {
+    const have = matchBy(want, live.tables);
+    if (!have) {
+      // The table is created with its writable fields; computed ones are listed for manual action
+      const computed = want.fields.filter((f) => READ_ONLY_FIELD_TYPES.has(f.type));
+      changes.push(change({
+        kind: "table_added",
+        table: want.name,
+        to: { ...want, fields: want.fields.filter((f) => !computed.includes(f)) },
+      }));
+      for (const field of computed) changes.push(fieldAdded({ table: want.name }, field));
+      continue;
+    }
+    matchedLive.add(have);
+    const tableRef = { table: want.name, tableId: have.id };
+
+    if (have.name !== want.name) {
+      changes.push(change({ kind: "table_renamed", ...tableRef, from: have.name, to: want.name }));
+    }
+    if ((have.description || "") !== (want.description || "")) {
+      changes.push(change({ kind: "table_description_changed", ...tableRef, from: have.description, to: want.description }));
+    }
+
+    const matchedFields = new Set<SnapshotField>();
+    for (const wantField of want.fields) {
+      const haveField = matchBy(wantField, have.fields);
+      if (!haveField) {
+        changes.push(fieldAdded(tableRef, wantField));
+        continue;
+      }
+      matchedFields.add(haveField);
+      const fieldRef = { ...tableRef, field: wantField.name, fieldId: haveField.id };
+
+      if (haveField.name !== wantField.name) {
+        changes.push(change({ kind: "field_renamed", ...fieldRef, from: haveField.name, to: wantField.name }));
+      }
+      if (haveField.type !== wantField.type) {
+        changes.push(change({ kind: "field_retyped", ...fieldRef, from: haveField.type, to: wantField.type }));
+      }
+      if ((haveField.description || "") !== (wantField.description || "")) {
+        changes.push(change({
+          kind: "field_description_changed",
+          ...fieldRef,
+          from: haveField.description,
+          to: wantField.description,
+        }));
+      }
+      const haveChoices = choiceNames(haveField);
+      const wantChoices = choiceNames(wantField);
+      if (haveChoices.join("\u0000") !== wantChoices.join("\u0000")) {
+        changes.push(change({ kind: "field_choices_changed", ...fieldRef, from: haveChoices, to: wantChoices }));
+      }
+    }
+
+    for (const haveField of have.fields) {
+      if (!matchedFields.has(haveField)) {
+        changes.push(change({
+          kind: "field_removed",
+          ...tableRef,
+          field: haveField.name,
+          fieldId: haveField.id,
+        }));
+      }
+    }
+  }
+
+  for (const have of live.tables) {
+    if (!matchedLive.has(have)) {
+      changes.push(change({ kind: "table_removed", table: have.name, tableId: have.id }));
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Applies the API-supported changes in order; others are skipped.
+ *
+ * Runs sequentially so renames land before later changes reference the
+ * new names. A failed change is reported and the rest continue.
+ *
+ * @param client - Connected Airtable client
+ * @param changes - Output of diffSchema
+ * @param baseId - Base to change (defaults to the configured base)
+ * @returns One result per applicable change
+ */
+export async function applySchema(
+  client: AirtableMCPClient,
+  changes: SchemaChange[],
+  baseId?: string
+): Promise<ApplyResult[]> {
+  const results: ApplyResult[] = [];
+
+  for (const c of changes.filter((c) => c.applicable)) {
+    try {
+      switch (c.kind) {
+        case "table_added": {
+          const spec = c.to as SnapshotTable;
+          // Put the primary field first; Airtable makes the first field primary
+          const fields = [...spec.fields].sort((a, b) =>
+            Number(b.name === spec.primaryField) - Number(a.name === spec.primaryField)
+          );
+          await client.createTable(spec.name, fields.map(creatableField), {
+            description: spec.description,
+            baseId,
+          });
+          break;
+        }
+        case "table_renamed":
+          await client.updateTable(c.tableId!, { name: c.to }, baseId);
+          break;
+        case "table_description_changed":
+          await client.updateTable(c.tableId!, { description: c.to || "" }, baseId);
+          break;
+        case "field_added":
+          await client.createField(c.tableId!, creatableField(c.to as SnapshotField), baseId);
+          break;
+        case "field_renamed":
+          await client.updateField(c.tableId!, c.fieldId!, { name: c.to }, baseId);
+          break;
+        case "field_description_changed":
+          await client.updateField(c.tableId!, c.fieldId!, { description: c.to || "" }, baseId);
+          break;
+      }
+      results.push({ change: c, ok: true });
+    } catch (error) {
+      results.push({ change: c, ok: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return results;
+}
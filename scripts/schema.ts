@@ -0,0 +1,87 @@
+/**
+ * Airtable Schema Types
+ *
+ * Shapes of the table and field definitions returned by describe_table,
+ * plus small helpers for working with them.
+ */
+
+export interface FieldChoice {
+  id?: string;
+  name: string;
+  color?: string;
+}
+
+export interface FieldSchema {
+  id: string;
+  name: string;
+  type: string;
+  description?: string;
+  options?: {
+    choices?: FieldChoice[];
+    linkedTableId?: string;
+    precision?: number;
+    [key: string]: any;
+  };
+}
+
+export interface TableSchema {
+  id: string;
+  name: string;
+  description?: string;
+  primaryFieldId?: string;
+  fields: FieldSchema[];
+  views?: Array<{ id: string; name: string; type?: string }>;
+}
+
+/**
+ * Field definition for creating a field (or a table's initial fields).
+ * `options` is type-specific, e.g. `{ choices: [{ name: "Sold" }] }`.
+ */
+export interface FieldSpec {
+  name: string;
+  type: string;
+  description?: string;
+  options?: Record<string, any>;
+}
+
+/** Field types holding a single number. */
+export const NUMERIC_FIELD_TYPES = new Set(["number", "currency", "percent", "rating", "duration"]);
+
+/** Field types holding plain text. */
+export const TEXT_FIELD_TYPES = new Set([
+  "singleLineText",
+  "multilineText",
+  "richText",
+  "email",
+  "url",
+  "phoneNumber",
+]);
+
+/** Field types computed by Airtable; writes to them are rejected. */
+export const READ_ONLY_FIELD_TYPES = new Set([
+  "formula",
+  "rollup",
+  "count",
+  "lookup",
+  "multipleLookupValues",
+  "autoNumber",
+  "createdTime",
+  "lastModifiedTime",
+  "createdBy",
+  "lastModifiedBy",
+  "button",
+]);
+
+/**
+ * Looks up a field by name or ID.
+ */
+export function findField(table: TableSchema, nameOrId: string): FieldSchema | undefined {
+  return table.fields.find((f) => f.name === nameOrId || f.id === nameOrId);
+}
+
+/**
+ * Returns the table's primary field (falls back to the first field).
+ */
+export function primaryField(table: TableSchema): FieldSchema | undefined {
+  return table.fields.find((f) => f.id === table.primaryFieldId) || table.fields[0];
+}
@@ -0,0 +1,356 @@
+/**
+ * Local SQLite Mirror
+ *
+ * Copies tables into a local SQLite file for offline reporting. The first
+ * sync of a table fetches everything; later syncs only fetch records whose
+ * LAST_MODIFIED_TIME() is after the previous sync. Deleted records leave no
+ * trace in an incremental fetch, so every so often a sync lists all record
+ * IDs and removes local rows that no longer exist.
+ *
+ * Each Airtable table becomes a SQL table named `<baseId>_<table name>` with
+ * an `id` column, `_created_time`, `_fields` (the raw JSON) and one column per
+ * field. Arrays and objects (links, attachments, multi-selects) are stored as
+ * JSON. `_sync_state` remembers the SQL table and columns each table was
+ * synced into; when a rename (or an added or removed field) changes them,
+ * the SQL table is rebuilt with a full sync, since an incremental fetch
+ * would leave unmodified records behind in the old table or columns.
+ */
+
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname, join } from "path";
+import type { AirtableMCPClient, AirtableRecord } from "./mcp-client.js";
+import { primaryField, type TableSchema } from "./schema.js";
+import { literal } from "./formula.js";
+
+/** Re-list every record ID at least this often to catch deletions. */
+export const DEFAULT_RECONCILE_HOURS = 24;
+
+/**
+ * Overlap subtracted from the incremental cursor, so records modified while
+ * the previous sync was running are fetched again rather than missed.
+ */
+const CURSOR_OVERLAP_MS = 60_000;
+
+/** Lower-cased, as SQLite compares identifiers case-insensitively. */
+const RESERVED_COLUMNS = new Set(["id", "_created_time", "_fields", "_synced_at"]);
+
+export interface SyncOptions {
+  baseId?: string;
+  /** SQLite file (default: <dataDir>/mirror.db) */
+  dbPath?: string;
+  /** Refetch everything and reconcile deletions regardless of state */
+  full?: boolean;
+  /** Hours between deletion reconciliations (default: 24) */
+  reconcileHours?: number;
+}
+
+export interface TableSyncReport {
+  table: string;
+  tableId: string;
+  /** SQL table holding the mirror */
+  sqlTable: string;
+  mode: "full" | "incremental";
+  upserted: number;
+  deleted: number;
+  reconciled: boolean;
+  syncedAt: string;
+}
+
+export interface SyncState {
+  table_id: string;
+  base_id: string;
+  table_name: string;
+  /** SQL table the mirror lives in (null when it must be rebuilt) */
+  sql_table: string | null;
+  cursor: string | null;
+  last_reconciled: string | null;
+}
+
+/** Stored state, plus the field ID → column map of the last sync. */
+interface StoredSyncState extends SyncState {
+  columns: string | null;
+}
+
+/**
+ * Default mirror location under the client's data directory.
+ */
+export function defaultMirrorPath(client: AirtableMCPClient): string {
+  return join(client.getDataDir(), "mirror.db");
+}
+
+/**
+ * Quotes a SQL identifier.
+ */
+function ident(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * SQL table for an Airtable table. Prefixed with the base ID so same-named
+ * tables from different bases stay apart.
+ */
+function sqlTableFor(baseId: string, schema: TableSchema): string {
+  return `${baseId}_${schema.name}`;
+}
+
+/**
+ * Field ID → column name. Fields that clash with reserved columns get a
+ * "_field" suffix, and names equal but for case (which SQLite treats as the
+ * same column) a numeric one.
+ */
+function columnsFor(schema: TableSchema): Record<string, string> {
+  const taken = new Set(RESERVED_COLUMNS);
+  const columns: Record<string, string> = {};
+  for (const field of schema.fields) {
+    const name = RESERVED_COLUMNS.has(field.name.toLowerCase()) ? `${field.name}_field` : field.name;
+    let column = name;
+    for (let n = 2; taken.has(column.toLowerCase()); n++) column = `${name}_${n}`;
+    taken.add(column.toLowerCase());
+    columns[field.id] = column;
+  }
+  return columns;
+}
+
+/**
+ * Converts a field value into something SQLite can store.
+ */
+function sqlValue(value: any): string | number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "number" || typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function openMirror(path: string, readonly = false): Database.Database {
+  if (!readonly) mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path, { readonly, fileMustExist: readonly });
+  if (!readonly) {
+    db.pragma("journal_mode = WAL");
+    db.exec(`CREATE TABLE IF NOT EXISTS _sync_state (
+      table_id TEXT PRIMARY KEY,
+      base_id TEXT NOT NULL,
+      table_name TEXT NOT NULL,
+      sql_table TEXT,
+      columns TEXT,
+      cursor TEXT,
+      last_reconciled TEXT
+    )`);
+    // Mirrors written before tables were tracked by SQL name get rebuilt
+    const stateColumns = db.prepare("PRAGMA table_info(_sync_state)").all() as Array<{ name: string }>;
+    for (const column of ["sql_table", "columns"]) {
+      if (!stateColumns.some((c) => c.name === column)) {
+        db.exec(`ALTER TABLE _sync_state ADD COLUMN ${column} TEXT`);
+      }
+    }
+  }
+  return db;
+}
+
+/**
+ * (Re)creates the SQL table for an Airtable table, empty.
+ *
+ * Another table's state that still points at the same SQL name (it was
+ * renamed away and this table took its name) loses it and is rebuilt on its
+ * next sync. This table's previous SQL table is dropped unless another
+ * table has claimed it since.
+ */
+function rebuildTable(
+  db: Database.Database,
+  tableId: string,
+  sqlTable: string,
+  columns: string[],
+  previous?: string | null
+): void {
+  db.transaction(() => {
+    db.prepare("UPDATE _sync_state SET sql_table = NULL WHERE sql_table = ? AND table_id != ?").run(sqlTable, tableId);
+    if (previous && previous !== sqlTable) {
+      const claimed = db.prepare("SELECT 1 FROM _sync_state WHERE sql_table = ? AND table_id != ?").get(previous, tableId);
+      if (!claimed) db.exec(`DROP TABLE IF EXISTS ${ident(previous)}`);
+    }
+    db.exec(`DROP TABLE IF EXISTS ${ident(sqlTable)}`);
+    db.exec(`CREATE TABLE ${ident(sqlTable)} (
+      id TEXT PRIMARY KEY,
+      _created_time TEXT,
+      _fields TEXT,
+      _synced_at TEXT${columns.map((c) => `,\n      ${ident(c)}`).join("")}
+    )`);
+  })();
+}
+
+/**
+ * Mirrors one table. Returns what changed locally.
+ */
+async function syncTable(
+  client: AirtableMCPClient,
+  db: Database.Database,
+  tableName: string,
+  options: SyncOptions
+): Promise<TableSyncReport> {
+  const baseId = await client.resolveBaseId(options.baseId);
+  const schema: TableSchema = await client.describeTable(tableName, baseId);
+  const sqlTable = sqlTableFor(baseId, schema);
+  const columnMap = columnsFor(schema);
+  const columns = Object.values(columnMap);
+
+  const state = db
+    .prepare("SELECT * FROM _sync_state WHERE table_id = ?")
+    .get(schema.id) as StoredSyncState | undefined;
+  // A renamed table or changed fields make the stored cursor meaningless
+  const layoutChanged = state?.sql_table !== sqlTable || state?.columns !== JSON.stringify(columnMap);
+  const startedAt = new Date();
+  const full = options.full || layoutChanged || !state?.cursor;
+  if (layoutChanged) {
+    // State without a column map predates base prefixes: its table is named after the Airtable table
+    const previous = state && state.columns === null ? state.table_name : state?.sql_table;
+    rebuildTable(db, schema.id, sqlTable, columns, previous);
+  }
+  const reconcileMs = (options.reconcileHours ?? DEFAULT_RECONCILE_HOURS) * 3_600_000;
+  const reconcile = full || !state?.last_reconciled ||
+    startedAt.getTime() - new Date(state.last_reconciled).getTime() >= reconcileMs;
+
+  const upsert = db.prepare(
+    `INSERT INTO ${ident(sqlTable)} (id, _created_time, _fields, _synced_at${columns.map((c) => `, ${ident(c)}`).join("")})
+     VALUES (?, ?, ?, ?${columns.map(() => ", ?").join("")})
+     ON CONFLICT(id) DO UPDATE SET _created_time = excluded._created_time, _fields = excluded._fields,
+       _synced_at = excluded._synced_at${columns.map((c) => `, ${ident(c)} = excluded.${ident(c)}`).join("")}`
+  );
+  const writePage = db.transaction((records: AirtableRecord[]) => {
+    for (const record of records) {
+      upsert.run(
+        record.id,
+        record.createdTime ?? null,
+        JSON.stringify(record.fields || {}),
+        startedAt.toISOString(),
+        ...schema.fields.map((f) => sqlValue(record.fields?.[f.name]))
+      );
+    }
+  });
+
+  const filterFormula = full
+    ? undefined
+    : `IS_AFTER(LAST_MODIFIED_TIME(),${literal(new Date(new Date(state!.cursor!).getTime() - CURSOR_OVERLAP_MS))})`;
+
+  let upserted = 0;
+  for await (const page of client.iterateRecords(schema.id, {
+    baseId,
+    filterFormula,
+    pageSize: 100,
+    bypassCache: true,
+  })) {
+    writePage(page.records);
+    upserted += page.records.length;
+  }
+
+  let deleted = 0;
+  if (reconcile) {
+    // Only the primary field, to keep the ID listing small
+    const primary = primaryField(schema);
+    const liveIds = new Set<string>();
+    for await (const page of client.iterateRecords(schema.id, {
+      baseId,
+      fields: primary ? [primary.name] : undefined,
+      pageSize: 100,
+      bypassCache: true,
+    })) {
+      page.records.forEach((r) => liveIds.add(r.id));
+    }
+    const localIds = db.prepare(`SELECT id FROM ${ident(sqlTable)}`).pluck().all() as string[];
+    const remove = db.prepare(`DELETE FROM ${ident(sqlTable)} WHERE id = ?`);
+    db.transaction(() => {
+      for (const id of localIds) {
+        if (!liveIds.has(id)) {
+          remove.run(id);
+          deleted++;
+        }
+      }
+    })();
+  }
+
+  db.prepare(
+    `INSERT INTO _sync_state (table_id, base_id, table_name, sql_table, columns, cursor, last_reconciled)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(table_id) DO UPDATE SET base_id = excluded.base_id, table_name = excluded.table_name,
+       sql_table = excluded.sql_table, columns = excluded.columns,
+       cursor = excluded.cursor, last_reconciled = excluded.last_reconciled`
+  ).run(
+    schema.id,
+    baseId,
+    schema.name,
+    sqlTable,
+    JSON.stringify(columnMap),
+    startedAt.toISOString(),
+    reconcile ? startedAt.toISOString() : state?.last_reconciled ?? null
+  );
+
+  return {
+    table: schema.name,
+    tableId: schema.id,
+    sqlTable,
+    mode: full ? "full" : "incremental",
+    upserted,
+    deleted,
+    reconciled: reconcile,
+    syncedAt: startedAt.toISOString(),
+  };
+}
+
+/**
+ * Mirrors tables into the local SQLite file.
+ *
+ * @param client - Connected Airtable client
+ * @param tables - Table names or IDs to mirror
+ * @param options - Base, database path, full refresh and reconcile interval
+ * @returns One report per table, in order
+ *
+ * @example
+ * await syncTables(client, ["Products", "Orders"]);
+ * // later, offline:
+ * queryLocal(defaultMirrorPath(client), 'SELECT Status, COUNT(*) FROM "appXXXXXXXXXXXXXX_Products" GROUP BY Status');
+ */
+export async function syncTables(
+  client: AirtableMCPClient,
+  tables: string[],
+  options?: SyncOptions
+): Promise<TableSyncReport[]> {
+  const db = openMirror(options?.dbPath || defaultMirrorPath(client));
+  try {
+    const reports: TableSyncReport[] = [];
+    for (const table of tables) {
+      reports.push(await syncTable(client, db, table, options || {}));
+    }
+    return reports;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Runs a read-only SQL query against the local mirror.
+ *
+ * @param dbPath - SQLite file written by syncTables
+ * @param sql - Query to run (the database is opened read-only)
+ * @param params - Positional parameters for `?` placeholders
+ * @returns Result rows
+ */
+export function queryLocal(dbPath: string, sql: string, params: unknown[] = []): Record<string, unknown>[] {
+  const db = openMirror(dbPath, true);
+  try {
+    return db.prepare(sql).all(...params) as Record<string, unknown>[];
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Tables in the mirror with their last sync times.
+ */
+export function mirrorStatus(dbPath: string): SyncState[] {
+  const db = openMirror(dbPath, true);
+  try {
+    const states = db.prepare("SELECT * FROM _sync_state ORDER BY table_name").all() as StoredSyncState[];
+    return states.map(({ columns, ...state }) => state);
+  } finally {
+    db.close();
+  }
+}
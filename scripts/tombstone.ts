@@ -0,0 +1,115 @@
+/**
+ * Delete Tombstones
+ *
+ * Before records are deleted, their full contents are written to a local
+ * tombstone file so a bad delete can be undone. Restoring re-creates the
+ * records from the file; Airtable assigns them new record IDs.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { AirtableMCPClient, AirtableRecord } from "./mcp-client.js";
+import type { BatchReport } from "./batch.js";
+import { type TableSchema, READ_ONLY_FIELD_TYPES, findField } from "./schema.js";
+
+export interface Tombstone {
+  version: 1;
+  deletedAt: string;
+  baseId: string;
+  table: string;
+  records: AirtableRecord[];
+}
+
+export interface RestoreReport extends BatchReport {
+  /** Old record ID → new record ID for restored records */
+  idMap: Record<string, string>;
+  /** Fields dropped because they are computed or no longer exist */
+  droppedFields: string[];
+  note: string;
+}
+
+/**
+ * Writes a tombstone file and returns its path.
+ *
+ * @param dir - Directory for tombstone files (created if missing)
+ * @param tombstone - Records and where they were deleted from
+ */
+export function writeTombstone(dir: string, tombstone: Tombstone): string {
+  mkdirSync(dir, { recursive: true });
+  const stamp = tombstone.deletedAt.replace(/[:.]/g, "-");
+  const safeTable = tombstone.table.replace(/[^A-Za-z0-9_-]+/g, "_");
+  const path = join(dir, `${stamp}-${safeTable}.json`);
+  writeFileSync(path, JSON.stringify(tombstone, null, 2) + "\n");
+  return path;
+}
+
+/**
+ * Reads and sanity-checks a tombstone file.
+ */
+export function readTombstone(path: string): Tombstone {
+  const tombstone = JSON.parse(readFileSync(path, "utf-8"));
+  if (tombstone?.version !== 1 || !Array.isArray(tombstone.records)) {
+    throw new Error(`${path} is not a tombstone file`);
+  }
+  return tombstone;
+}
+
+/**
+ * Converts a fetched value back into something Airtable accepts on create.
+ * Attachments are re-uploaded from their URL.
+ */
+function writableValue(value: any, type: string): any {
+  if (type === "multipleAttachments" && Array.isArray(value)) {
+    return value.map((a) => ({ url: a.url, ...(a.filename ? { filename: a.filename } : {}) }));
+  }
+  return value;
+}
+
+/**
+ * Re-creates the records in a tombstone.
+ *
+ * Computed fields and fields that no longer exist are dropped. Linked record
+ * IDs are kept as-is, so links to records that still exist are restored.
+ * The restored records get new IDs; the report maps old IDs to new ones.
+ *
+ * @param client - Connected Airtable client
+ * @param tombstone - Tombstone to restore
+ * @param options - Target table/base overrides
+ * @returns Batch report plus the old → new ID map
+ */
+export async function restoreTombstone(
+  client: AirtableMCPClient,
+  tombstone: Tombstone,
+  options?: { table?: string; baseId?: string }
+): Promise<RestoreReport> {
+  const table = options?.table || tombstone.table;
+  const baseId = options?.baseId || tombstone.baseId;
+  const schema: TableSchema = await client.describeTable(table, baseId);
+
+  const dropped = new Set<string>();
+  const records = tombstone.records.map((record) => {
+    const fields: Record<string, any> = {};
+    for (const [name, value] of Object.entries(record.fields || {})) {
+      const field = findField(schema, name);
+      if (!field || READ_ONLY_FIELD_TYPES.has(field.type)) {
+        dropped.add(name);
+        continue;
+      }
+      fields[name] = writableValue(value, field.type);
+    }
+    return fields;
+  });
+
+  const report = await client.createRecords(table, records, baseId);
+  const idMap: Record<string, string> = {};
+  report.results.forEach((r) => {
+    if (r.ok && r.id) idMap[tombstone.records[r.index].id] = r.id;
+  });
+
+  return {
+    ...report,
+    idMap,
+    droppedFields: [...dropped],
+    note: "Restored records have new record IDs; update anything that referenced the old IDs.",
+  };
+}
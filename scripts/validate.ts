@@ -0,0 +1,170 @@
+/**
+ * Write Validation
+ *
+ * Checks outgoing field values against a table schema before they are sent,
+ * so typos and bad select options fail locally instead of at Airtable (or,
+ * worse, silently creating a new select option).
+ */
+
+import {
+  type FieldSchema,
+  type TableSchema,
+  NUMERIC_FIELD_TYPES,
+  TEXT_FIELD_TYPES,
+  READ_ONLY_FIELD_TYPES,
+  findField,
+} from "./schema.js";
+
+export type FieldIssueCode = "UNKNOWN_FIELD" | "READ_ONLY" | "WRONG_TYPE" | "INVALID_CHOICE";
+
+export interface FieldIssue {
+  field: string;
+  code: FieldIssueCode;
+  message: string;
+}
+
+const RECORD_ID_PATTERN = /^rec[A-Za-z0-9]{14}$/;
+
+/**
+ * Describes a value's type for messages ("string", "array", "null", ...).
+ */
+function typeOf(value: any): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Checks a select value against the field's choices.
+ * Suggests the canonical spelling when only the case differs.
+ */
+function checkChoice(field: FieldSchema, value: any): string | undefined {
+  if (typeof value !== "string") return `expected a choice name, got ${typeOf(value)}`;
+  const choices = field.options?.choices || [];
+  if (choices.some((c) => c.name === value)) return undefined;
+  const near = choices.find((c) => c.name.toLowerCase() === value.toLowerCase());
+  return near
+    ? `"${value}" is not a valid option (did you mean "${near.name}"?)`
+    : `"${value}" is not a valid option (choices: ${choices.map((c) => c.name).join(", ")})`;
+}
+
+/**
+ * Checks one value against its field type.
+ *
+ * @returns Issue code and message, or undefined if the value is acceptable
+ */
+function checkValue(field: FieldSchema, value: any): { code: FieldIssueCode; message: string } | undefined {
+  // null clears a field of any writable type
+  if (value === null) return undefined;
+  const wrongType = (expected: string) => ({
+    code: "WRONG_TYPE" as const,
+    message: `expected ${expected} for ${field.type} field, got ${typeOf(value)}`,
+  });
+
+  if (TEXT_FIELD_TYPES.has(field.type)) {
+    return typeof value === "string" ? undefined : wrongType("a string");
+  }
+  if (NUMERIC_FIELD_TYPES.has(field.type)) {
+    return typeof value === "number" && Number.isFinite(value) ? undefined : wrongType("a number");
+  }
+
+  switch (field.type) {
+    case "checkbox":
+      return typeof value === "boolean" ? undefined : wrongType("true/false");
+
+    case "date":
+      return typeof value === "string" && !Number.isNaN(Date.parse(value))
+        ? undefined
+        : wrongType("a date string (YYYY-MM-DD)");
+
+    case "dateTime":
+      return typeof value === "string" && !Number.isNaN(Date.parse(value))
+        ? undefined
+        : wrongType("an ISO 8601 date/time string");
+
+    case "singleSelect": {
+      const message = checkChoice(field, value);
+      return message ? { code: "INVALID_CHOICE", message } : undefined;
+    }
+
+    case "multipleSelects": {
+      if (!Array.isArray(value)) return wrongType("an array of choice names");
+      for (const item of value) {
+        const message = checkChoice(field, item);
+        if (message) return { code: "INVALID_CHOICE", message };
+      }
+      return undefined;
+    }
+
+    case "multipleRecordLinks":
+      return Array.isArray(value) && value.every((v) => typeof v === "string" && RECORD_ID_PATTERN.test(v))
+        ? undefined
+        : wrongType("an array of record IDs");
+
+    case "multipleAttachments":
+      return Array.isArray(value) && value.every((v) => v && typeof v === "object" && (v.url || v.id))
+        ? undefined
+        : wrongType("an array of { url } or { id } objects");
+
+    case "singleCollaborator":
+      return value && typeof value === "object" && (value.id || value.email)
+        ? undefined
+        : wrongType("an { id } or { email } object");
+
+    case "multipleCollaborators":
+      return Array.isArray(value) && value.every((v) => v && typeof v === "object" && (v.id || v.email))
+        ? undefined
+        : wrongType("an array of { id } or { email } objects");
+
+    case "barcode":
+      return value && typeof value === "object" && typeof value.text === "string"
+        ? undefined
+        : wrongType("a { text } object");
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Validates one record's outgoing fields against a table schema.
+ *
+ * @param schema - Table schema from describeTable
+ * @param fields - Field name/ID → value, as it would be sent
+ * @returns Issues found (empty if the fields are valid)
+ *
+ * @example
+ * validateFields(schema, { "status": "Sold" });
+ * // [{ field: "status", code: "UNKNOWN_FIELD", message: "No field named \"status\" (did you mean \"Status\"?)" }]
+ */
+export function validateFields(schema: TableSchema, fields: Record<string, any>): FieldIssue[] {
+  const issues: FieldIssue[] = [];
+
+  for (const [name, value] of Object.entries(fields || {})) {
+    const field = findField(schema, name);
+    if (!field) {
+      const near = schema.fields.find((f) => f.name.toLowerCase() === name.toLowerCase());
+      issues.push({
+        field: name,
+        code: "UNKNOWN_FIELD",
+        message: near ? `No field named "${name}" (did you mean "${near.name}"?)` : `No field named "${name}"`,
+      });
+      continue;
+    }
+    if (READ_ONLY_FIELD_TYPES.has(field.type)) {
+      issues.push({ field: name, code: "READ_ONLY", message: `"${field.name}" is a computed ${field.type} field` });
+      continue;
+    }
+    const problem = checkValue(field, value);
+    if (problem) issues.push({ field: name, ...problem });
+  }
+
+  return issues;
+}
+
+/**
+ * Formats issues as a single line for error messages.
+ */
+export function formatIssues(issues: FieldIssue[]): string {
+  return issues.map((i) => `${i.field}: ${i.message}`).join("; ");
+}
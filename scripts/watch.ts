@@ -0,0 +1,325 @@
+/**
+ * Change Watching
+ *
+ * Polls a table for records created or modified since the last poll and
+ * turns them into created/updated/deleted events. A state file keeps the
+ * cursor and the last seen fields of every record, so updates carry a
+ * field-level diff and a re-fetched record that did not really change
+ * produces no event. Deletions leave no trace in a modified-since query, so
+ * every so often the record IDs are listed and missing ones reported.
+ *
+ * Events are delivered at least once: the cursor only moves after every
+ * event of a poll was handled, and records whose event was handled are
+ * recorded in the snapshot so a retried poll does not repeat them.
+ */
+
+import { spawn } from "child_process";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import type { AirtableMCPClient, AirtableRecord } from "./mcp-client.js";
+import { findField, primaryField, type TableSchema } from "./schema.js";
+import { fieldRef, literal } from "./formula.js";
+import { InvalidFieldError } from "./errors.js";
+
+/** List every record ID at least this often to detect deletions. */
+export const DEFAULT_RECONCILE_MINUTES = 10;
+
+/**
+ * Overlap subtracted from the cursor, so records modified while the previous
+ * poll was running are fetched again rather than missed.
+ */
+const CURSOR_OVERLAP_MS = 60_000;
+
+export type WatchEventType = "created" | "updated" | "deleted";
+
+export interface FieldChange {
+  from: any;
+  to: any;
+}
+
+export interface WatchEvent {
+  type: WatchEventType;
+  table: string;
+  tableId: string;
+  recordId: string;
+  detectedAt: string;
+  /** Current fields (created and updated events) */
+  fields?: Record<string, any>;
+  /** Changed fields with their previous and new values (updated events) */
+  changes?: Record<string, FieldChange>;
+  /** Last seen fields (deleted events) */
+  previous?: Record<string, any>;
+}
+
+export interface WatchOptions {
+  baseId?: string;
+  /** Only watch these fields: other edits are ignored (default: all fields) */
+  fields?: string[];
+  /** State file (default: <dataDir>/watch/<baseId>-<tableId>.json) */
+  statePath?: string;
+  /** Minutes between deletion checks (default: 10) */
+  reconcileMinutes?: number;
+}
+
+export interface PollSummary {
+  table: string;
+  /** True when this poll only recorded a baseline (no state existed) */
+  baseline: boolean;
+  created: number;
+  updated: number;
+  deleted: number;
+  reconciled: boolean;
+  cursor: string;
+  statePath: string;
+}
+
+interface WatchState {
+  version: 1;
+  baseId: string;
+  tableId: string;
+  table: string;
+  fields?: string[];
+  cursor: string;
+  lastReconciled: string;
+  /** Record ID → last seen fields */
+  records: Record<string, Record<string, any>>;
+}
+
+/**
+ * Default state location under the client's data directory.
+ */
+export function defaultStatePath(client: AirtableMCPClient, baseId: string, tableId: string): string {
+  return join(client.getDataDir(), "watch", `${baseId}-${tableId}.json`);
+}
+
+function readState(path: string): WatchState | undefined {
+  if (!existsSync(path)) return undefined;
+  const state = JSON.parse(readFileSync(path, "utf-8"));
+  if (state?.version !== 1 || typeof state.records !== "object") {
+    throw new Error(`${path} is not a watch state file`);
+  }
+  return state;
+}
+
+/**
+ * Writes the state through a temporary file so an interrupted write never
+ * leaves a truncated file behind.
+ */
+function writeState(path: string, state: WatchState): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(`${path}.tmp`, JSON.stringify(state) + "\n");
+  renameSync(`${path}.tmp`, path);
+}
+
+/**
+ * Drops attachment URLs before comparing: Airtable signs them per request,
+ * so they differ on every fetch even when the file did not change.
+ */
+function comparable(value: any): string {
+  return JSON.stringify(value ?? null, (key, v) =>
+    v && typeof v === "object" && !Array.isArray(v) && "filename" in v
+      ? { ...v, url: undefined, thumbnails: undefined }
+      : v
+  );
+}
+
+/**
+ * Field-level differences between two snapshots of a record.
+ */
+export function diffFields(
+  previous: Record<string, any>,
+  current: Record<string, any>
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  for (const name of new Set([...Object.keys(previous), ...Object.keys(current)])) {
+    if (comparable(previous[name]) !== comparable(current[name])) {
+      changes[name] = { from: previous[name] ?? null, to: current[name] ?? null };
+    }
+  }
+  return changes;
+}
+
+function watchedFields(record: AirtableRecord, fields?: string[]): Record<string, any> {
+  if (!fields) return record.fields || {};
+  const picked: Record<string, any> = {};
+  for (const name of fields) {
+    if (record.fields?.[name] !== undefined) picked[name] = record.fields[name];
+  }
+  return picked;
+}
+
+/**
+ * Formula selecting records created or (watched fields) modified after `since`.
+ */
+function changedSince(since: Date, fields?: string[]): string {
+  const modified = fields ? `LAST_MODIFIED_TIME(${fields.map(fieldRef).join(",")})` : "LAST_MODIFIED_TIME()";
+  return `OR(IS_AFTER(${modified},${literal(since)}),IS_AFTER(CREATED_TIME(),${literal(since)}))`;
+}
+
+/**
+ * Polls a table once and hands each change to `emit`, in order.
+ *
+ * The first poll for a state file records a baseline and emits nothing.
+ * If `emit` throws, changes handled so far are kept, the cursor stays where
+ * it was and the error propagates; the next poll picks up the rest.
+ *
+ * @param client - Connected Airtable client
+ * @param tableName - Table name or table ID
+ * @param options - Watched fields, state file and deletion check interval
+ * @param emit - Called once per event
+ * @returns Event counts and the new cursor
+ * @throws {InvalidFieldError} If a watched field does not exist
+ *
+ * @example
+ * await pollChanges(client, "Products", { fields: ["Status"] }, (event) => {
+ *   console.log(event.recordId, event.changes?.Status);
+ * });
+ */
+export async function pollChanges(
+  client: AirtableMCPClient,
+  tableName: string,
+  options: WatchOptions,
+  emit: (event: WatchEvent) => void | Promise<void>
+): Promise<PollSummary> {
+  const baseId = await client.resolveBaseId(options.baseId);
+  const schema: TableSchema = await client.describeTable(tableName, baseId);
+  const fields = options.fields?.map((name) => {
+    const field = findField(schema, name);
+    if (!field) {
+      throw new InvalidFieldError(`Unknown field "${name}" in table "${schema.name}"`, {
+        context: { baseId, tableId: schema.id },
+      });
+    }
+    return field.name;
+  });
+  const statePath = options.statePath || defaultStatePath(client, baseId, schema.id);
+  const stored = readState(statePath);
+  // Snapshots of a different field selection are not comparable; start over
+  const previous = stored && JSON.stringify(stored.fields ?? null) === JSON.stringify(fields ?? null)
+    ? stored
+    : undefined;
+  const startedAt = new Date();
+  const summary: PollSummary = {
+    table: schema.name,
+    baseline: !previous,
+    created: 0,
+    updated: 0,
+    deleted: 0,
+    reconciled: false,
+    cursor: startedAt.toISOString(),
+    statePath,
+  };
+
+  if (!previous) {
+    const state: WatchState = {
+      version: 1,
+      baseId,
+      tableId: schema.id,
+      table: schema.name,
+      ...(fields ? { fields } : {}),
+      cursor: startedAt.toISOString(),
+      lastReconciled: startedAt.toISOString(),
+      records: {},
+    };
+    for await (const page of client.iterateRecords(schema.id, { baseId, fields, pageSize: 100, bypassCache: true })) {
+      for (const record of page.records) state.records[record.id] = watchedFields(record, fields);
+    }
+    writeState(statePath, state);
+    return summary;
+  }
+
+  const state: WatchState = { ...previous, table: schema.name };
+  const detectedAt = startedAt.toISOString();
+  const handle = async (event: WatchEvent, apply: () => void) => {
+    try {
+      await emit(event);
+    } catch (error) {
+      writeState(statePath, state);
+      throw error;
+    }
+    apply();
+    summary[event.type]++;
+  };
+
+  const since = new Date(new Date(state.cursor).getTime() - CURSOR_OVERLAP_MS);
+  for await (const page of client.iterateRecords(schema.id, {
+    baseId,
+    filterFormula: changedSince(since, fields),
+    fields,
+    pageSize: 100,
+    bypassCache: true,
+  })) {
+    for (const record of page.records) {
+      const current = watchedFields(record, fields);
+      const seen = state.records[record.id];
+      const base = { table: schema.name, tableId: schema.id, recordId: record.id, detectedAt };
+      if (!seen) {
+        await handle({ type: "created", ...base, fields: current }, () => { state.records[record.id] = current; });
+        continue;
+      }
+      const changes = diffFields(seen, current);
+      if (Object.keys(changes).length) {
+        await handle({ type: "updated", ...base, fields: current, changes }, () => { state.records[record.id] = current; });
+      }
+    }
+  }
+
+  const reconcileMs = (options.reconcileMinutes ?? DEFAULT_RECONCILE_MINUTES) * 60_000;
+  if (startedAt.getTime() - new Date(state.lastReconciled).getTime() >= reconcileMs) {
+    // Only the primary field, to keep the ID listing small
+    const primary = primaryField(schema);
+    const liveIds = new Set<string>();
+    for await (const page of client.iterateRecords(schema.id, {
+      baseId,
+      fields: primary ? [primary.name] : undefined,
+      pageSize: 100,
+      bypassCache: true,
+    })) {
+      page.records.forEach((r) => liveIds.add(r.id));
+    }
+    for (const [recordId, last] of Object.entries(state.records)) {
+      if (liveIds.has(recordId)) continue;
+      await handle(
+        { type: "deleted", table: schema.name, tableId: schema.id, recordId, detectedAt, previous: last },
+        () => { delete state.records[recordId]; }
+      );
+    }
+    state.lastReconciled = detectedAt;
+    summary.reconciled = true;
+  }
+
+  state.cursor = detectedAt;
+  writeState(statePath, state);
+  return summary;
+}
+
+/**
+ * Runs a hook command for one event through the shell. The event is passed
+ * as JSON on stdin and summarised in AIRTABLE_EVENT_* environment variables.
+ *
+ * @throws {Error} If the command exits non-zero
+ */
+export function runHook(command: string, event: WatchEvent): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ["pipe", "inherit", "inherit"],
+      env: {
+        ...process.env,
+        AIRTABLE_EVENT_TYPE: event.type,
+        AIRTABLE_EVENT_TABLE: event.table,
+        AIRTABLE_EVENT_RECORD_ID: event.recordId,
+        AIRTABLE_EVENT_CHANGED_FIELDS: Object.keys(event.changes || {}).join(","),
+      },
+    });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) resolve();
+      else reject(new Error(`Hook exited with code ${code} for ${event.type} ${event.recordId}`));
+    });
+    child.stdin.on("error", () => {
+      // The hook may exit without reading stdin
+    });
+    child.stdin.end(JSON.stringify(event) + "\n");
+  });
+}